@@ -1,25 +1,97 @@
-import { ReleaseSource } from "./config";
-import { readStoredData, writeStoredData } from "./hash-store";
+import {
+  ChangeKind,
+  DEFAULT_GITHUB_API_URL,
+  DEFAULT_MAX_BODY_LENGTH,
+  DEFAULT_NPM_REGISTRY_URL,
+  DEFAULT_PYPI_URL,
+  DEFAULT_RETRACT_AFTER,
+  EntryMode,
+  FetchStrategy,
+  GitHubReleasesOptions,
+  HtmlPageOptions,
+  MuteRule,
+  PackageRegistryOptions,
+  ParserType,
+  ReleaseSource,
+} from "./config";
+import { classifyChanges } from "./classify";
+import { diffLines, formatLineDiff, LineDiff } from "./diff";
+import { formatEntries } from "./format";
+import { isMuted } from "./mute";
+import { entryWatchMatches, watchChange } from "./watchlist";
+import {
+  EditedEntry,
+  EntrySnapshot,
+  findEditedEntries,
+  findRetractedEntries,
+  getSeenIds,
+  hashContent,
+  HISTORY_LIMIT,
+  readStoredData,
+  recordEntries,
+  recordMuted,
+  recordWatchMatches,
+  SeenEntry,
+  snapshotTime,
+  StoredData,
+  writeStoredData,
+} from "./hash-store";
 import * as log from "./logger";
 import semver from "semver";
 
+export type { ChangeKind };
+
+// One release-note entry as found by a parser
+export interface ReleaseEntry {
+  id: string; // Stable key: version, date, post title or feed guid
+  title: string;
+  version?: string; // Version-ordered sources
+  date?: string; // As written by the source
+  body?: string; // Markdown or plain text
+  url?: string; // The entry's own page
+  authors?: string[];
+  categories?: string[];
+  uncategorized?: boolean; // Some bullets fit none of the categories
+}
+
+// How announced entries are laid out in the default message, see formatEntries()
+export type EntryLayout = "changelog" | "dated" | "posts" | "feed";
+
+export interface Change {
+  kind: ChangeKind;
+  version: string; // Label shown in the notification
+  formattedChanges: string;
+  sections?: string[]; // formattedChanges split per entry, oldest first
+  entries?: ReleaseEntry[]; // Oldest first
+  diff?: LineDiff; // entry-updated only
+  watchMatches?: string[]; // Watched terms it mentions (see watchlist.ts)
+}
+
 export interface CheckResult {
   source: ReleaseSource;
   hasChanged: boolean;
-  version?: string;
+  version?: string; // New entries, same as the "new-entry" change
   formattedChanges?: string;
+  entries?: ReleaseEntry[]; // New entries, oldest first
+  changes?: Change[]; // One notification each, set when hasChanged
+  priority?: boolean; // A change mentions a watched term
+  suppressed?: number; // Entries and edits kept back by mute rules
   error?: string;
   isTransient?: boolean; // True for retryable/non-critical failures (e.g., Wayback down)
+  strategy?: FetchStrategy; // Which fetch strategy produced the change (wayback parser only)
 }
 
+// What a parser found to announce; rendered by formatEntries()
 interface ParsedContent {
-  version: string;
-  formattedChanges: string;
+  version: string; // Label shown in the notification
+  layout: EntryLayout;
+  entries: ReleaseEntry[]; // Oldest first
 }
 
 export interface VersionEntry {
   version: string;
   changes: string;
+  url?: string; // Release or package page
 }
 
 // =============================================================================
@@ -90,15 +162,18 @@ export function compareVersions(a: string, b: string): number {
   return semver.compare(cleanA, cleanB);
 }
 
+// Parsers whose identifiers are versions rather than dates
+const SEMVER_PARSER_TYPES: ParserType[] = ["markdown", "github-releases", "npm", "pypi"];
+
 // Check if newId is newer than oldId based on parser type
 // Used to prevent regression to older versions/dates
 export function isNewerIdentifier(
   newId: string,
   oldId: string,
-  parserType: "markdown" | "wayback"
+  parserType: ParserType
 ): boolean {
-  if (parserType === "markdown") {
-    // Use semver comparison for Claude versions
+  if (SEMVER_PARSER_TYPES.includes(parserType)) {
+    // Use semver comparison for Claude versions and release tags
     return compareVersions(newId, oldId) > 0;
   } else {
     // Try parsing as human-readable dates first (e.g., "January 12, 2026")
@@ -128,22 +203,6 @@ export function getVersionsSince(
   );
 }
 
-// Extract date from Gemini page (format: YYYY.MM.DD)
-export function extractGeminiDate(html: string): string | null {
-  const match = html.match(/\d{4}\.\d{2}\.\d{2}/);
-  return match ? match[0] : null;
-}
-
-// Extract date from human-readable format (e.g., "January 12, 2026")
-// Used by ChatGPT and other sources with "Month DD, YYYY" dates
-export function extractMonthDayYearDate(html: string): string | null {
-  const months =
-    "January|February|March|April|May|June|July|August|September|October|November|December";
-  const regex = new RegExp(`(${months})\\s+\\d{1,2},\\s+20\\d{2}`);
-  const match = html.match(regex);
-  return match ? match[0] : null;
-}
-
 // Parse a human-readable date string (e.g., "January 12, 2026") into a Date object
 export function parseMonthDayYearDate(dateStr: string): Date | null {
   const months: Record<string, number> = {
@@ -157,6 +216,19 @@ export function parseMonthDayYearDate(dateStr: string): Date | null {
   return new Date(parseInt(year), months[month], parseInt(day));
 }
 
+// Parse a numeric date string (e.g., "2026.01.12" or "2026-01-12") into a Date object
+export function parseYearMonthDayDate(dateStr: string): Date | null {
+  const match = dateStr.match(/^(\d{4})[.\-/](\d{2})[.\-/](\d{2})$/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  return new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
+}
+
+// Parse a date in either supported format
+function parseEntryDate(dateStr: string): Date | null {
+  return parseMonthDayYearDate(dateStr) ?? parseYearMonthDayDate(dateStr);
+}
+
 // Strip Wayback Machine prefix from archived URLs
 // e.g. /web/20260210/https://claude.com/blog/slug → https://claude.com/blog/slug
 export function extractOriginalUrl(href: string): string {
@@ -201,6 +273,78 @@ export function htmlToText(html: string): string {
     .trim();
 }
 
+// Convert HTML to markdown for notifications: headings become "###", list
+// items "- " (or "1. " in ordered lists), bold "**" and absolute links
+// [text](url). Source whitespace is collapsed as a browser would.
+export function htmlToMarkdown(html: string): string {
+  return html
+    .replace(/<script[\s>][\s\S]*?<\/script>/gi, "")
+    .replace(/<style[\s>][\s\S]*?<\/style>/gi, "")
+    .replace(/\s+/g, " ")
+    .replace(/<ol\b[^>]*>([\s\S]*?)<\/ol>/gi, (_, items: string) => {
+      let n = 0;
+      return `\n\n${items.replace(/<li\b[^>]*>/gi, () => `\n${++n}. `)}\n\n`;
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/?ul\b[^>]*>/gi, "\n\n")
+    .replace(/<h[1-6]\b[^>]*>/gi, "\n\n### ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(?:p|div|h[1-6]|tr|blockquote|section|article)>/gi, "\n\n")
+    .replace(/<(strong|b)\b[^>]*>([^<]*)<\/\1>/gi, (match, _, text: string) =>
+      text.trim() ? ` **${text.trim()}** ` : match
+    )
+    .replace(/<a\b[^>]*href="([^"]*)"[^>]*>([^<]*)<\/a>/gi, (_, href: string, text: string) => {
+      const url = extractOriginalUrl(href);
+      return /^https?:\/\//.test(url) && text.trim() ? ` [${text.trim()}](${url}) ` : text;
+    })
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#039;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/ ([.,;:!?)])/g, "$1") // space left by a closing tag before punctuation
+    .replace(/^(?:###|-|\d+\.)$/gm, "") // markers of empty headings and items
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// =============================================================================
+// Extraction Rules (per-source configuration for HTML pages)
+// =============================================================================
+
+const MONTH_DAY_YEAR_PATTERN =
+  "(?:January|February|March|April|May|June|July|August|September|October|November|December)\\s+\\d{1,2},\\s+20\\d{2}";
+const YEAR_MONTH_DAY_PATTERN = "\\d{4}[.\\-/]\\d{2}[.\\-/]\\d{2}";
+
+export interface ExtractionRules {
+  entryMode: EntryMode;
+  datePattern: RegExp;
+  headingLevels: number[];
+  linkPattern?: RegExp;
+  maxBodyLength: number;
+  fetchArticles: boolean;
+}
+
+// Resolve a source's parserOptions into extraction rules, filling in defaults
+export function getExtractionRules(source: ReleaseSource): ExtractionRules {
+  const options = (source.parserOptions ?? {}) as HtmlPageOptions;
+  const defaultPattern =
+    options.dateFormat === "year-month-day" ? YEAR_MONTH_DAY_PATTERN : MONTH_DAY_YEAR_PATTERN;
+
+  return {
+    entryMode: options.entryMode ?? "date-sections",
+    datePattern: new RegExp(options.datePattern ?? defaultPattern),
+    headingLevels: options.headingLevels ?? [1, 2, 3, 4, 5, 6],
+    linkPattern: options.linkPattern ? new RegExp(options.linkPattern) : undefined,
+    maxBodyLength: options.maxBodyLength ?? DEFAULT_MAX_BODY_LENGTH,
+    fetchArticles: options.fetchArticles ?? false,
+  };
+}
+
 // =============================================================================
 // Date Entry Parsing Functions (Gemini, ChatGPT)
 // =============================================================================
@@ -208,12 +352,52 @@ export function htmlToText(html: string): string {
 export interface DateEntry {
   title: string;
   date: string;
+  body: string; // Every paragraph of the section, one per line (identifies edits)
+  details: string; // The section after the title as markdown, for notifications
+}
+
+// Sections of a markdown page that start with a date at the beginning of a
+// line, which may carry a heading, list or bold marker
+function markdownDateSections(
+  markdown: string,
+  datePattern: RegExp
+): { date: string; text: string }[] {
+  const pattern = new RegExp(
+    `(?:^|\\n)[ \\t]*(?:#{1,6} |- |\\d+\\. )?(?:\\*\\*)?(${datePattern.source})`,
+    "g" + datePattern.flags.replace("g", "")
+  );
+  const matches = [...markdown.matchAll(pattern)];
+  return matches.map((m, i) => ({
+    date: m[1],
+    text: markdown.slice(m.index! + m[0].length, matches[i + 1]?.index ?? markdown.length),
+  }));
+}
+
+// Drop the title line (and what's left of the date's line) and cut at a line
+// boundary to maxLength characters
+function sectionDetails(text: string, maxLength: number): string {
+  if (maxLength === 0) return "";
+  const details = text
+    .replace(/^[*:\s]*/, "")
+    .split("\n")
+    .slice(1)
+    .join("\n")
+    .trim();
+  if (details.length <= maxLength) return details;
+
+  let cut = details.lastIndexOf("\n", maxLength - 1);
+  if (cut <= 0) cut = maxLength - 1;
+  return `${details.slice(0, cut).trimEnd()}\n…`;
 }
 
 // Extract date-bounded entries from HTML (for Gemini/ChatGPT date-structured pages)
 // Returns entries in page order (newest first) with title = first paragraph of each section
 // Only matches dates at the start of a line to avoid inline date references
-export function extractDateEntries(html: string, datePattern: RegExp): DateEntry[] {
+export function extractDateEntries(
+  html: string,
+  datePattern: RegExp,
+  maxDetailsLength = DEFAULT_MAX_BODY_LENGTH
+): DateEntry[] {
   const text = htmlToText(html);
   const entries: DateEntry[] = [];
 
@@ -231,20 +415,31 @@ export function extractDateEntries(html: string, datePattern: RegExp): DateEntry
     dates.push({ date, index: dateStart });
   }
 
+  const markdownSections = markdownDateSections(htmlToMarkdown(html), datePattern);
+
   for (let i = 0; i < dates.length; i++) {
     const contentStart = dates[i].index + dates[i].date.length;
     const contentEnd = i + 1 < dates.length ? dates[i + 1].index : text.length;
     const section = text.slice(contentStart, contentEnd).trim();
 
     // First non-empty paragraph is the title
-    const paragraphs = section.split(/\n\n+/).filter((p) => p.trim());
-    let title = paragraphs.length > 0 ? paragraphs[0].trim().replace(/\s+/g, " ") : "";
+    const paragraphs = section
+      .split(/\n\n+/)
+      .map((p) => p.trim().replace(/\s+/g, " "))
+      .filter(Boolean);
+    let title = paragraphs.length > 0 ? paragraphs[0] : "";
 
     // Clean up update notes that start with ":" (e.g., "Feb 3: We fixed...")
     title = title.replace(/^:\s*/, "");
 
     if (title) {
-      entries.push({ title, date: dates[i].date });
+      // The markdown version of the page has the same sections, unless a
+      // date only starts a line in one of them
+      const details =
+        markdownSections.length === dates.length && markdownSections[i].date === dates[i].date
+          ? sectionDetails(markdownSections[i].text, maxDetailsLength)
+          : "";
+      entries.push({ title, date: dates[i].date, body: paragraphs.join("\n"), details });
     }
   }
 
@@ -252,11 +447,11 @@ export function extractDateEntries(html: string, datePattern: RegExp): DateEntry
 }
 
 // Return entries newer than storedDate, or only newest on first run
-export function getNewDateEntries(
-  entries: DateEntry[],
+export function getNewDateEntries<T extends DateEntry>(
+  entries: T[],
   storedDate: string | null,
-  parserType: "markdown" | "wayback"
-): DateEntry[] {
+  parserType: ParserType
+): T[] {
   if (entries.length === 0) return [];
 
   if (!storedDate) {
@@ -276,21 +471,111 @@ export interface BlogPost {
   title: string;
   date: string;
   url?: string;
+  excerpt?: string;
+  authors?: string[];
+  categories?: string[];
+}
+
+const AUTHOR_CLASS = /(^|[\s_-])(authors?|byline)($|[\s_-])/i;
+const CATEGORY_CLASS = /(^|[\s_-])(categor(y|ies)|tags?|topics?)($|[\s_-])/i;
+const EXCERPT_CLASS = /(^|[\s_-])(excerpt|summary|description|dek)($|[\s_-])/i;
+const CATEGORY_LINK = /\/(categor(y|ies)|tags?|topics?)\//i;
+
+// Shortest paragraph of an article page taken as its lead (shorter ones are
+// usually captions, bylines or dates)
+const LEAD_PARAGRAPH_MIN_LENGTH = 40;
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+// Texts of the elements whose class matches, one per link or list item
+// inside them (a tag list), or the element's own text
+function textsByClass(html: string, classPattern: RegExp): string[] {
+  const texts: string[] = [];
+  for (const open of html.matchAll(/<(\w+)\b[^>]*\bclass="([^"]*)"[^>]*>/gi)) {
+    if (!classPattern.test(open[2])) continue;
+    const start = open.index! + open[0].length;
+    const end = html.slice(start).search(new RegExp(`<\\/${open[1]}>`, "i"));
+    const inner = html.slice(start, end === -1 ? undefined : start + end);
+    const items = [...inner.matchAll(/<(a|li)\b[^>]*>([\s\S]*?)<\/\1>/gi)].map((m) => stripHtml(m[2]));
+    texts.push(...(items.length > 0 ? items : [stripHtml(inner)]));
+  }
+  return texts;
+}
+
+// "By Jane Doe, Ann Lee and Joe Bloggs" → ["Jane Doe", "Ann Lee", "Joe Bloggs"]
+function splitAuthors(text: string): string[] {
+  return text
+    .replace(/^by\s+/i, "")
+    .split(/\s*(?:,|&|\band\b)\s*/i)
+    .map((name) => name.trim());
+}
+
+// Excerpt, authors and categories from the listing markup after a post's
+// heading. Dates, bylines and tags are never taken for the excerpt.
+function extractPostDetails(section: string, dateRegex: RegExp): Omit<BlogPost, "title" | "date" | "url"> {
+  const paragraphs = [...section.matchAll(/<p\b([^>]*)>([\s\S]*?)<\/p>/gi)]
+    .filter((m) => !/class="[^"]*"/.test(m[1]) || ![AUTHOR_CLASS, CATEGORY_CLASS].some((c) => c.test(m[1])))
+    .map((m) => stripHtml(m[2]));
+  const bylines = paragraphs.filter((text) => /^by\s/i.test(text));
+
+  const excerpt =
+    textsByClass(section, EXCERPT_CLASS)[0] ??
+    paragraphs.find((text) => text && !dateRegex.test(text) && !bylines.includes(text));
+  const authors = unique(
+    [
+      ...textsByClass(section, AUTHOR_CLASS),
+      ...[...section.matchAll(/<a\b[^>]*rel="author"[^>]*>([\s\S]*?)<\/a>/gi)].map((m) => stripHtml(m[1])),
+      ...bylines,
+    ].flatMap(splitAuthors)
+  );
+  const categories = unique([
+    ...textsByClass(section, CATEGORY_CLASS),
+    ...[...section.matchAll(/<a\b[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi)]
+      .filter((m) => CATEGORY_LINK.test(m[1]))
+      .map((m) => stripHtml(m[2])),
+  ]);
+
+  return {
+    ...(excerpt && { excerpt }),
+    ...(authors.length > 0 && { authors }),
+    ...(categories.length > 0 && { categories }),
+  };
+}
+
+// Lead paragraph of an article page: the first paragraph of its <article>
+// (or <main>) long enough to be prose
+export function extractLeadParagraph(html: string): string | undefined {
+  const body =
+    html.match(/<article\b[\s\S]*?<\/article>/i)?.[0] ??
+    html.match(/<main\b[\s\S]*?<\/main>/i)?.[0] ??
+    html;
+  return [...body.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)]
+    .map((m) => stripHtml(m[1]))
+    .find((text) => text.length >= LEAD_PARAGRAPH_MIN_LENGTH);
 }
 
 // Extract blog posts (title + date pairs) from blog HTML, newest first
-// Uses heading-based parsing: finds <h1>-<h6> elements and looks for a date
+// Uses heading-based parsing: finds heading elements and looks for a date
 // between each heading and the next. Only headings followed by a date are
 // treated as blog posts, which naturally excludes nav/toolbar text.
-export function extractBlogPosts(html: string): BlogPost[] {
+// The post URL is the first link in the section matching rules.linkPattern
+// (or simply the first link when no pattern is configured). Excerpt, authors
+// and categories are picked up from the section when the listing shows them.
+export function extractBlogPosts(
+  html: string,
+  rules: Partial<ExtractionRules> = {}
+): BlogPost[] {
   const posts: BlogPost[] = [];
+  const levels = (rules.headingLevels ?? [1, 2, 3, 4, 5, 6]).join("");
 
   // Find all heading elements with their positions and text
-  const headingRegex = /<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi;
+  const headingRegex = new RegExp(`<h([${levels}])[^>]*>([\\s\\S]*?)<\\/h\\1>`, "gi");
   const headings: { title: string; startIndex: number; endIndex: number }[] = [];
   let match;
   while ((match = headingRegex.exec(html)) !== null) {
-    const title = stripHtml(match[1]);
+    const title = stripHtml(match[2]);
     if (title) {
       headings.push({
         title,
@@ -300,9 +585,7 @@ export function extractBlogPosts(html: string): BlogPost[] {
     }
   }
 
-  const months =
-    "January|February|March|April|May|June|July|August|September|October|November|December";
-  const dateRegex = new RegExp(`(${months})\\s+\\d{1,2},\\s+20\\d{2}`);
+  const dateRegex = rules.datePattern ?? new RegExp(MONTH_DAY_YEAR_PATTERN);
 
   // For each heading, look for a date between it and the next heading
   for (let i = 0; i < headings.length; i++) {
@@ -315,9 +598,17 @@ export function extractBlogPosts(html: string): BlogPost[] {
 
     if (dateMatch) {
       // Look for an article link (e.g. href="/web/TS/https://claude.com/blog/slug")
-      const linkMatch = section.match(/href="([^"]*claude\.com\/blog\/[a-z0-9][^"]*)"/);
-      const url = linkMatch ? extractOriginalUrl(linkMatch[1]) : undefined;
-      posts.push({ title: headings[i].title, date: dateMatch[0], url });
+      const hrefs = [...section.matchAll(/href="([^"#][^"]*)"/g)].map((m) => m[1]);
+      const href = rules.linkPattern
+        ? hrefs.find((h) => rules.linkPattern!.test(h))
+        : hrefs[0];
+      const url = href ? extractOriginalUrl(href) : undefined;
+      posts.push({
+        title: headings[i].title,
+        date: dateMatch[0],
+        url,
+        ...extractPostDetails(section, dateRegex),
+      });
     }
   }
 
@@ -369,17 +660,207 @@ export function getNewBlogPosts(
   // Return posts before the stored title that are also date-newer.
   // The blog page has a featured section with old posts that can appear
   // before the chronological list — date filtering excludes these.
-  const storedDate = parseMonthDayYearDate(posts[storedIndex].date);
+  const storedDate = parseEntryDate(posts[storedIndex].date);
   const candidates = posts.slice(0, storedIndex);
 
   if (!storedDate) return candidates;
 
   return candidates.filter((p) => {
-    const pDate = parseMonthDayYearDate(p.date);
+    const pDate = parseEntryDate(p.date);
     return pDate && pDate.getTime() > storedDate.getTime();
   });
 }
 
+// =============================================================================
+// Feed Parsing Functions (RSS/Atom)
+// =============================================================================
+
+export interface FeedItem {
+  guid: string;
+  title: string;
+  date: string;
+  link?: string;
+  summary: string;
+}
+
+// Decode XML text content: unwrap CDATA, otherwise decode entities
+function decodeXmlText(text: string): string {
+  const cdata = text.trim().match(/^<!\[CDATA\[([\s\S]*?)\]\]>$/);
+  if (cdata) return cdata[1];
+
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// Get the text of the first <tag>...</tag> in an XML fragment (self-closing tags are ignored)
+function extractXmlTag(xml: string, tag: string): string | null {
+  const regex = new RegExp(`<${tag}(?:\\s[^>]*)?(?<!/)>([\\s\\S]*?)</${tag}>`, "i");
+  const match = xml.match(regex);
+  return match ? decodeXmlText(match[1]).trim() : null;
+}
+
+// Atom links are attributes: prefer rel="alternate" (or no rel) over self/edit links
+function extractAtomLink(xml: string): string | undefined {
+  const linkRegex = /<link\b([^>]*)>/gi;
+  let fallback: string | undefined;
+  let match;
+  while ((match = linkRegex.exec(xml)) !== null) {
+    const href = match[1].match(/href="([^"]*)"/)?.[1];
+    if (!href) continue;
+    const rel = match[1].match(/rel="([^"]*)"/)?.[1];
+    if (!rel || rel === "alternate") return decodeXmlText(href);
+    fallback = fallback ?? decodeXmlText(href);
+  }
+  return fallback;
+}
+
+// Extract <item> (RSS) and <entry> (Atom) elements, in feed order
+export function extractFeedItems(xml: string): FeedItem[] {
+  const items: FeedItem[] = [];
+  const itemRegex = /<(item|entry)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let match;
+
+  while ((match = itemRegex.exec(xml)) !== null) {
+    const body = match[2];
+    const title = stripHtml(extractXmlTag(body, "title") || "");
+    const date =
+      extractXmlTag(body, "pubDate") ||
+      extractXmlTag(body, "published") ||
+      extractXmlTag(body, "updated") ||
+      extractXmlTag(body, "dc:date") ||
+      "";
+    const link = extractXmlTag(body, "link") || extractAtomLink(body);
+    const rawSummary =
+      extractXmlTag(body, "description") ||
+      extractXmlTag(body, "summary") ||
+      extractXmlTag(body, "content:encoded") ||
+      extractXmlTag(body, "content") ||
+      "";
+    const guid =
+      extractXmlTag(body, "guid") ||
+      extractXmlTag(body, "id") ||
+      link ||
+      `${title}:${date}`;
+
+    if (title || rawSummary) {
+      items.push({ guid, title, date, link, summary: htmlToText(rawSummary) });
+    }
+  }
+
+  return items;
+}
+
+// Sort newest first when every item has a parseable date; otherwise keep feed order
+export function sortFeedItems(items: FeedItem[]): FeedItem[] {
+  const times = items.map((i) => Date.parse(i.date));
+  if (times.some((t) => isNaN(t))) return items;
+
+  return items
+    .map((item, index) => ({ item, time: times[index] }))
+    .sort((a, b) => b.time - a.time)
+    .map((x) => x.item);
+}
+
+// Return items whose guid hasn't been seen, or only the newest on first run
+// Tracking guids (not position or date) means reordered feeds don't re-alert
+export function getNewFeedItems(
+  items: FeedItem[],
+  seenIds: string[] | null
+): FeedItem[] {
+  if (items.length === 0) return [];
+
+  if (!seenIds) {
+    // First run: return only the newest item
+    return items.slice(0, 1);
+  }
+
+  const seen = new Set(seenIds);
+  return items.filter((i) => !seen.has(i.guid));
+}
+
+// =============================================================================
+// Package Registry Functions (npm, PyPI)
+// =============================================================================
+
+export interface RegistryVersion {
+  version: string;
+  publishedAt?: string; // ISO timestamp
+  url: string;
+  prerelease: boolean;
+}
+
+// Subset of the npm packument (GET {registry}/{package})
+interface NpmPackument {
+  versions?: Record<string, { deprecated?: string }>;
+  time?: Record<string, string>;
+}
+
+// Subset of the PyPI JSON API (GET {base}/pypi/{package}/json)
+interface PypiProject {
+  releases?: Record<string, { upload_time_iso_8601?: string; yanked?: boolean }[]>;
+}
+
+export function npmVersions(meta: NpmPackument, packageName: string): RegistryVersion[] {
+  return Object.entries(meta.versions || {})
+    .filter(([, info]) => !info.deprecated)
+    .map(([version]) => ({
+      version,
+      publishedAt: meta.time?.[version],
+      url: `https://www.npmjs.com/package/${packageName}/v/${version}`,
+      prerelease: semver.prerelease(version) !== null,
+    }));
+}
+
+export function pypiVersions(meta: PypiProject, packageName: string): RegistryVersion[] {
+  return Object.entries(meta.releases || {})
+    .filter(([, files]) => files.length > 0 && files.some((f) => !f.yanked))
+    .map(([version, files]) => ({
+      version,
+      // Earliest upload is the release time; later uploads are extra wheels
+      publishedAt: files
+        .map((f) => f.upload_time_iso_8601)
+        .filter((t): t is string => !!t)
+        .sort()[0],
+      url: `https://pypi.org/project/${packageName}/${version}/`,
+      // PEP 440 pre/dev releases: 1.0a1, 1.0b2, 1.0rc1, 1.0.dev3
+      prerelease: /(a|b|rc|dev)\d*$/i.test(version),
+    }));
+}
+
+// Format an ISO timestamp as "YYYY-MM-DD HH:MM UTC"
+function formatPublishTime(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+// Turn registry versions into version entries, newest (by semver) first
+export function registryVersionsToEntries(
+  versions: RegistryVersion[],
+  includePrereleases = false
+): VersionEntry[] {
+  return versions
+    .filter((v) => includePrereleases || !v.prerelease)
+    .map((v) => ({
+      version: v.version,
+      changes: [
+        `## ${v.version}`,
+        v.publishedAt ? `Published ${formatPublishTime(v.publishedAt)}` : "",
+        v.url,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      url: v.url,
+    }))
+    .sort((a, b) => compareVersions(b.version, a.version));
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -417,16 +898,19 @@ interface ParserResult {
   version?: string;
   content?: ParsedContent;
   error?: string;
-  skipRegressionCheck?: boolean; // True when the parser handles its own newness detection (e.g., blog)
+  entries?: EntrySnapshot[]; // Every entry the parser looked at, newest first
+  newIds?: string[]; // Ids of entries being announced; set by entry-tracking parsers
+  strategy?: FetchStrategy; // How the page was fetched (wayback parser only)
+  snapshotTimestamp?: string; // Wayback snapshot the page came from, if it did
 }
 
 async function parseMarkdown(
   source: ReleaseSource,
-  storedVersion: string | null
+  storedData: StoredData | null
 ): Promise<ParserResult> {
   const content = await fetchContent(source.url);
   if (!content) {
-    return { success: false, error: "Failed to fetch Claude Code changelog" };
+    return { success: false, error: `Failed to fetch ${source.name} changelog` };
   }
 
   const allVersions = extractAllVersions(content);
@@ -434,23 +918,40 @@ async function parseMarkdown(
     return { success: false, error: "No versions found in changelog" };
   }
 
-  const missedVersions = getVersionsSince(allVersions, storedVersion);
+  return buildVersionResult(allVersions, storedData);
+}
+
+// Pick the entries to announce. With history, an entry is new when its id
+// was never seen; without (first run or pre-history state file), fall back
+// to the parser's identifier-based logic.
+function selectNewEntries<T>(
+  items: T[],
+  idOf: (item: T) => string,
+  storedData: StoredData | null,
+  withoutHistory: () => T[]
+): T[] {
+  const seen = getSeenIds(storedData);
+  return seen ? items.filter((item) => !seen.has(idOf(item))) : withoutHistory();
+}
+
+// Shared result builder for version-ordered parsers (markdown, GitHub releases, registries)
+// allVersions must be newest first
+function buildVersionResult(
+  allVersions: VersionEntry[],
+  storedData: StoredData | null
+): ParserResult {
+  const window = allVersions.slice(0, HISTORY_LIMIT);
+  const entries = window.map((v) => ({ id: v.version, title: v.version, content: v.changes }));
+  const missedVersions = selectNewEntries(window, (v) => v.version, storedData, () =>
+    getVersionsSince(allVersions, storedData?.identifier ?? null)
+  );
 
   if (missedVersions.length === 0) {
-    // No new versions - return current latest for comparison
-    return {
-      success: true,
-      version: allVersions[0].version,
-      content: {
-        version: allVersions[0].version,
-        formattedChanges: allVersions[0].changes,
-      },
-    };
+    return { success: true, entries, newIds: [] };
   }
 
-  // Combine all missed version changelogs (oldest first for chronological reading)
+  // Oldest first for chronological reading
   const reversedMissed = [...missedVersions].reverse();
-  const combinedChanges = reversedMissed.map((v) => v.changes).join("\n\n---\n\n");
 
   // Version display: show range if multiple, single if one
   const versionDisplay =
@@ -463,11 +964,126 @@ async function parseMarkdown(
     version: missedVersions[0].version, // Store the newest
     content: {
       version: versionDisplay,
-      formattedChanges: combinedChanges,
+      layout: "changelog",
+      entries: reversedMissed.map((v) => {
+        const { body, categories, uncategorized } = classifyChanges(v.changes);
+        return {
+          id: v.version,
+          title: v.version,
+          version: v.version,
+          body,
+          ...(v.url && { url: v.url }),
+          ...(categories.length > 0 && { categories }),
+          ...(uncategorized && { uncategorized }),
+        };
+      }),
     },
+    entries,
+    newIds: missedVersions.map((v) => v.version),
   };
 }
 
+interface GitHubRelease {
+  tag_name: string;
+  name: string | null;
+  body: string | null;
+  html_url: string;
+  draft: boolean;
+  prerelease: boolean;
+}
+
+// Turn GitHub releases into version entries, newest (by semver) first
+export function releasesToVersions(
+  releases: GitHubRelease[],
+  options: Pick<GitHubReleasesOptions, "includePrereleases" | "includeDrafts">
+): VersionEntry[] {
+  return releases
+    .filter((r) => options.includeDrafts || !r.draft)
+    .filter((r) => options.includePrereleases || !r.prerelease)
+    .map((r) => {
+      const heading =
+        r.name && r.name !== r.tag_name ? `${r.tag_name} - ${r.name}` : r.tag_name;
+      const body = (r.body || "").replace(/\r\n/g, "\n").trim();
+      return {
+        version: r.tag_name,
+        changes: [`## ${heading}`, body, r.html_url].filter(Boolean).join("\n\n"),
+        url: r.html_url,
+      };
+    })
+    .sort((a, b) => compareVersions(b.version, a.version));
+}
+
+async function parseGitHubReleases(
+  source: ReleaseSource,
+  storedData: StoredData | null
+): Promise<ParserResult> {
+  const options = source.parserOptions as unknown as GitHubReleasesOptions;
+  const apiBaseUrl = (options.apiBaseUrl || DEFAULT_GITHUB_API_URL).replace(/\/+$/, "");
+  const token = process.env[options.tokenEnv || "GITHUB_TOKEN"];
+
+  const headers: Record<string, string> = {
+    Accept: "application/vnd.github+json",
+    "User-Agent": "changelog-watcher",
+    "X-GitHub-Api-Version": "2022-11-28",
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const response = await fetch(`${apiBaseUrl}/repos/${options.repo}/releases?per_page=100`, {
+    headers,
+  });
+  if (!response.ok) {
+    return {
+      success: false,
+      error: `GitHub API returned ${response.status} for ${options.repo}`,
+    };
+  }
+
+  const releases = (await response.json()) as GitHubRelease[];
+  const allVersions = releasesToVersions(releases, options);
+  if (allVersions.length === 0) {
+    return { success: false, error: `No releases found for ${options.repo}` };
+  }
+
+  return buildVersionResult(allVersions, storedData);
+}
+
+async function parsePackageRegistry(
+  source: ReleaseSource,
+  storedData: StoredData | null
+): Promise<ParserResult> {
+  const options = source.parserOptions as unknown as PackageRegistryOptions;
+  const isNpm = source.parserType === "npm";
+  const baseUrl = (
+    options.registryUrl || (isNpm ? DEFAULT_NPM_REGISTRY_URL : DEFAULT_PYPI_URL)
+  ).replace(/\/+$/, "");
+  const metadataUrl = isNpm
+    ? `${baseUrl}/${options.package.replace("/", "%2f")}` // Scoped names keep the "@"
+    : `${baseUrl}/pypi/${options.package}/json`;
+
+  const response = await fetch(metadataUrl, {
+    headers: { Accept: "application/json", "User-Agent": "changelog-watcher" },
+  });
+  if (!response.ok) {
+    return {
+      success: false,
+      error: `Registry returned ${response.status} for ${options.package}`,
+    };
+  }
+
+  const meta = await response.json();
+  const versions = isNpm
+    ? npmVersions(meta, options.package)
+    : pypiVersions(meta, options.package);
+  const allVersions = registryVersionsToEntries(versions, options.includePrereleases);
+  if (allVersions.length === 0) {
+    return { success: false, error: `No versions found for ${options.package}` };
+  }
+
+  return buildVersionResult(allVersions, storedData);
+}
+
 // Fetch the newest Wayback snapshot using CDX API (deterministic, unlike /available)
 async function fetchNewestWaybackSnapshot(
   targetUrl: string
@@ -507,15 +1123,30 @@ async function fetchNewestWaybackSnapshot(
   return { timestamp, originalUrl };
 }
 
-async function parseWayback(
-  source: ReleaseSource,
-  storedIdentifier: string | null
-): Promise<ParserResult> {
+interface FetchedPage {
+  html?: string;
+  snapshotTimestamp?: string; // Set when the page came from the Wayback Machine
+  error?: string;
+}
+
+// Fetch the page directly from the vendor's site
+async function fetchLivePage(source: ReleaseSource): Promise<FetchedPage> {
+  try {
+    const html = await fetchContent(source.url);
+    return html ? { html } : { error: "Failed to fetch live page" };
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    return { error: `Failed to fetch live page: ${errorMsg}` };
+  }
+}
+
+// Fetch the newest archived copy of the page from the Wayback Machine
+async function fetchWaybackPage(source: ReleaseSource): Promise<FetchedPage> {
   // Use CDX API to get the newest snapshot (deterministic, unlike /available)
   const snapshot = await fetchNewestWaybackSnapshot(source.url);
 
   if (!snapshot) {
-    return { success: false, error: "No Wayback snapshot available via CDX" };
+    return { error: "No Wayback snapshot available via CDX" };
   }
 
   log.info(`  Found Wayback snapshot from ${snapshot.timestamp}`);
@@ -533,41 +1164,167 @@ async function parseWayback(
   });
 
   if (!contentResponse) {
-    return { success: false, error: "Failed to fetch Wayback content" };
+    return { error: "Failed to fetch Wayback content" };
   }
 
-  const html = await contentResponse.text();
+  return { html: await contentResponse.text(), snapshotTimestamp: snapshot.timestamp };
+}
+
+// Strategies to try for a "wayback" source, in order
+export function getFetchStrategies(source: ReleaseSource): FetchStrategy[] {
+  const options = (source.parserOptions ?? {}) as HtmlPageOptions;
+  return options.strategies ?? ["wayback"];
+}
+
+// Try each configured strategy in order until one yields parseable content.
+// A live page that loads but can't be parsed (e.g., a bot challenge page)
+// counts as a failure so the next strategy gets a chance.
+async function parseWayback(
+  source: ReleaseSource,
+  storedData: StoredData | null
+): Promise<ParserResult> {
+  const strategies = getFetchStrategies(source);
+  let lastResult: ParserResult = { success: false, error: "No fetch strategy configured" };
+
+  for (const [i, strategy] of strategies.entries()) {
+    const page =
+      strategy === "live" ? await fetchLivePage(source) : await fetchWaybackPage(source);
 
-  // Blog source: multi-post detection using titles
-  if (source.id === "claude-blog") {
-    return parseBlogContent(source, html, storedIdentifier);
+    lastResult = page.html
+      ? parseHtmlPage(source, page.html, storedData, page.snapshotTimestamp)
+      : { success: false, error: page.error };
+
+    if (lastResult.success) {
+      const content = await addLeadParagraphs(source, lastResult.content, strategy);
+      return {
+        ...lastResult,
+        content,
+        strategy,
+        ...(page.snapshotTimestamp && { snapshotTimestamp: page.snapshotTimestamp }),
+      };
+    }
+
+    if (i + 1 < strategies.length) {
+      log.warn(`  ${strategy}: ${lastResult.error}, trying ${strategies[i + 1]}`);
+    }
   }
 
-  // Extract all date entries for multi-entry detection
-  const datePattern =
-    source.id === "gemini"
-      ? /\d{4}\.\d{2}\.\d{2}/
-      : new RegExp(
-          `(?:January|February|March|April|May|June|July|August|September|October|November|December)\\s+\\d{1,2},\\s+20\\d{2}`
-        );
+  return lastResult;
+}
 
-  const allEntries = extractDateEntries(html, datePattern);
+// With fetchArticles, new blog posts the listing shows no excerpt for get the
+// lead paragraph of their article, fetched the same way as the listing. A
+// post whose article can't be loaded is announced without one.
+async function addLeadParagraphs(
+  source: ReleaseSource,
+  content: ParsedContent | undefined,
+  strategy: FetchStrategy
+): Promise<ParsedContent | undefined> {
+  const rules = getExtractionRules(source);
+  if (!content || rules.entryMode !== "heading-posts" || !rules.fetchArticles) {
+    return content;
+  }
+
+  const entries: ReleaseEntry[] = [];
+  for (const entry of content.entries) {
+    if (entry.body || !entry.url || entry.url === source.releasePageUrl) {
+      entries.push(entry);
+      continue;
+    }
+
+    const article = { ...source, url: entry.url };
+    const page =
+      strategy === "live" ? await fetchLivePage(article) : await fetchWaybackPage(article);
+    const lead = page.html ? extractLeadParagraph(page.html) : undefined;
+    if (!lead) {
+      log.warn(`  No lead paragraph for "${entry.title}": ${page.error ?? "none found on the page"}`);
+    }
+    entries.push(lead ? { ...entry, body: lead } : entry);
+  }
+
+  return { ...content, entries };
+}
+
+// Newest date among remembered entries. Unseen entries older than this are
+// not news: a longer page (e.g., a Wayback snapshot after a trimmed live page)
+// can reveal older sections that simply were never in view.
+function newestSeenDate(storedData: StoredData | null): Date | null {
+  const dates = (storedData?.entries ?? [])
+    .map((e) => (e.date ? parseEntryDate(e.date) : null))
+    .filter((d): d is Date => d !== null);
+  return dates.length > 0 ? new Date(Math.max(...dates.map((d) => d.getTime()))) : null;
+}
+
+function isOlderThan(date: string, cutoff: Date | null): boolean {
+  const parsed = parseEntryDate(date);
+  return !!(cutoff && parsed && parsed.getTime() < cutoff.getTime());
+}
+
+// Ids of dated sections. A section keeps the id it was stored under (same
+// date and title); a date that appears once on the page takes the id of the
+// one stored section of that date, so a retitled section is an edit. Other
+// sections are identified by their date, plus a hash of the title when
+// several share it, so removing one never hands its id to another.
+function datedEntryIds(entries: DateEntry[], stored: SeenEntry[]): string[] {
+  const storedDate = (e: SeenEntry) => e.date ?? e.id.split("#")[0];
+  const perDate = new Map<string, number>();
+  for (const e of entries) perDate.set(e.date, (perDate.get(e.date) ?? 0) + 1);
+
+  const ids: (string | undefined)[] = entries.map(
+    (e) => stored.find((s) => storedDate(s) === e.date && s.title === e.title)?.id
+  );
+  const used = new Set(ids.filter((id): id is string => id !== undefined));
+
+  return entries.map((e, i) => {
+    if (ids[i]) return ids[i]!;
+    const hashed = `${e.date}#${hashContent(e.title).slice(0, 8)}`;
+    const unclaimed = stored.filter((s) => storedDate(s) === e.date && !used.has(s.id));
+    let id = hashed;
+    if (perDate.get(e.date) === 1) {
+      if (unclaimed.length === 1) id = unclaimed[0].id;
+      else if (!stored.some((s) => s.id === e.date)) id = e.date;
+    }
+    // Sections with the same date and title
+    for (let n = 2; used.has(id); n++) id = `${hashed}-${n}`;
+    used.add(id);
+    return id;
+  });
+}
+
+function parseHtmlPage(
+  source: ReleaseSource,
+  html: string,
+  storedData: StoredData | null,
+  snapshotTimestamp?: string
+): ParserResult {
+  const rules = getExtractionRules(source);
+  const storedIdentifier = storedData?.identifier ?? null;
+
+  // Blog-style listing: multi-post detection using titles
+  if (rules.entryMode === "heading-posts") {
+    return parseBlogContent(source, html, storedData, rules);
+  }
+
+  // Extract all date entries for multi-entry detection
+  const allEntries = extractDateEntries(html, rules.datePattern, rules.maxBodyLength);
 
   if (allEntries.length === 0) {
     // Fall back: try simple date extraction
-    const date =
-      source.id === "gemini"
-        ? extractGeminiDate(html)
-        : extractMonthDayYearDate(html);
+    const date = html.match(rules.datePattern)?.[0] ?? null;
 
     if (!date) {
+      if (!snapshotTimestamp) {
+        return { success: false, error: "Could not extract date from live page" };
+      }
+
       log.warn("  Could not extract date, using snapshot timestamp");
       return {
         success: true,
-        version: snapshot.timestamp,
+        version: snapshotTimestamp,
         content: {
           version: "Update detected",
-          formattedChanges: `${source.name} release notes updated.\n\n${source.releasePageUrl}`,
+          layout: "dated",
+          entries: [{ id: snapshotTimestamp, title: `${source.name} release notes updated.` }],
         },
       };
     }
@@ -577,85 +1334,149 @@ async function parseWayback(
       version: date,
       content: {
         version: `${stripHtml(date)}:${date}`,
-        formattedChanges: `${source.name} (${date}): ${source.releasePageUrl}`,
+        layout: "posts",
+        entries: [{ id: date, title: source.name, date, url: source.releasePageUrl }],
       },
     };
   }
 
-  const newEntries = getNewDateEntries(allEntries, storedIdentifier, source.parserType);
+  const ids = datedEntryIds(allEntries, storedData?.entries ?? []);
+  const identified = allEntries.map((e, i) => ({ ...e, id: ids[i] }));
+  const window = identified.slice(0, HISTORY_LIMIT);
+  const entries = window.map((e) => ({ id: e.id, title: e.title, date: e.date, content: e.body }));
+  const cutoff = newestSeenDate(storedData);
+  const newEntries = selectNewEntries(window, (e) => e.id, storedData, () =>
+    getNewDateEntries(identified, storedIdentifier, source.parserType)
+  ).filter((e) => !isOlderThan(e.date, cutoff));
 
   if (newEntries.length === 0) {
-    // No new entries — return stored identifier so checkSource sees no change
-    return {
-      success: true,
-      version: storedIdentifier!,
-      content: {
-        version: `${allEntries[0].title}:${allEntries[0].date}`,
-        formattedChanges: "",
-      },
-    };
+    return { success: true, entries, newIds: [] };
   }
 
-  // Format notification: newest entry's date is stored identifier
+  // Newest entry's date is the stored identifier
   const newest = newEntries[0];
   const reversedNew = [...newEntries].reverse(); // oldest first for chronological reading
 
-  const formattedChanges = reversedNew
-    .map((e) => `${e.title} (${e.date})`)
-    .join("\n\n")
-    + `\n\n${source.releasePageUrl}`;
-
   return {
     success: true,
     version: newest.date, // Store the newest date
     content: {
       version: `${newest.title}:${newest.date}`,
-      formattedChanges,
+      layout: "dated",
+      entries: reversedNew.map((e) => ({
+        id: e.id,
+        title: e.title,
+        date: e.date,
+        ...(e.details && { body: e.details }),
+      })),
     },
-    skipRegressionCheck: true, // We handle newness detection via getNewDateEntries
+    entries,
+    newIds: newEntries.map((e) => e.id),
   };
 }
 
 function parseBlogContent(
   source: ReleaseSource,
   html: string,
-  storedTitle: string | null
+  storedData: StoredData | null,
+  rules: ExtractionRules
 ): ParserResult {
-  const posts = extractBlogPosts(html);
+  const posts = extractBlogPosts(html, rules);
 
   if (posts.length === 0) {
     return { success: false, error: "No blog posts found" };
   }
 
-  const newPosts = getNewBlogPosts(posts, storedTitle);
+  const window = posts.slice(0, HISTORY_LIMIT);
+  const entries = window.map((p) => ({
+    id: p.title,
+    title: p.title,
+    date: p.date,
+    content: `${p.title}\n${p.date}`,
+  }));
+  const cutoff = newestSeenDate(storedData);
+  const newPosts = selectNewEntries(window, (p) => p.title, storedData, () =>
+    getNewBlogPosts(posts, storedData?.identifier ?? null)
+  ).filter((p) => !isOlderThan(p.date, cutoff));
 
   if (newPosts.length === 0) {
-    // No new posts — return stored title so checkSource sees no change
-    return {
-      success: true,
-      version: storedTitle!,
-      content: {
-        version: `${posts[0].title}:${posts[0].date}`,
-        formattedChanges: "",
-      },
-    };
+    return { success: true, entries, newIds: [] };
   }
 
   const newest = newPosts[0];
   const reversedNew = [...newPosts].reverse(); // oldest first for chronological reading
 
-  const formattedChanges = reversedNew
-    .map((p) => `${p.title} (${p.date}): ${p.url || source.releasePageUrl}`)
-    .join("\n\n");
-
   return {
     success: true,
     version: newest.title, // Store the newest post title
     content: {
       version: `${newest.title}:${newest.date}`,
-      formattedChanges,
+      layout: "posts",
+      entries: reversedNew.map((p) => ({
+        id: p.title,
+        title: p.title,
+        date: p.date,
+        url: p.url || source.releasePageUrl,
+        ...(p.excerpt && { body: p.excerpt }),
+        ...(p.authors && { authors: p.authors }),
+        ...(p.categories && { categories: p.categories }),
+      })),
     },
-    skipRegressionCheck: true, // Blog handles its own newness detection via title matching
+    entries,
+    newIds: newPosts.map((p) => p.title),
+  };
+}
+
+async function parseFeed(
+  source: ReleaseSource,
+  storedData: StoredData | null
+): Promise<ParserResult> {
+  const content = await fetchContent(source.url);
+  if (!content) {
+    return { success: false, error: `Failed to fetch ${source.name} feed` };
+  }
+
+  const items = sortFeedItems(extractFeedItems(content));
+  if (items.length === 0) {
+    return { success: false, error: "No entries found in feed" };
+  }
+
+  const window = items.slice(0, HISTORY_LIMIT);
+  const entries = window.map((i) => ({
+    id: i.guid,
+    title: i.title,
+    date: i.date,
+    content: `${i.title}\n${i.summary}`,
+  }));
+  const seen = getSeenIds(storedData);
+  const newItems = getNewFeedItems(window, seen ? [...seen] : null);
+
+  if (newItems.length === 0) {
+    return { success: true, entries, newIds: [] };
+  }
+
+  const newest = newItems[0];
+  const reversedNew = [...newItems].reverse(); // oldest first for chronological reading
+
+  return {
+    success: true,
+    version: newest.guid, // Store the newest guid
+    content: {
+      version:
+        newItems.length === 1
+          ? newest.title
+          : `${newest.title} (+${newItems.length - 1} more)`,
+      layout: "feed",
+      entries: reversedNew.map((i) => ({
+        id: i.guid,
+        title: i.title,
+        ...(i.date && { date: i.date }),
+        ...(i.summary && { body: i.summary }),
+        ...(i.link && { url: i.link }),
+      })),
+    },
+    entries,
+    newIds: newItems.map((i) => i.guid),
   };
 }
 
@@ -663,15 +1484,142 @@ function parseBlogContent(
 // Main Entry Point
 // =============================================================================
 
+// Parsed content without the muted entries, labelled the way the parser
+// labels a change with those entries
+function withoutMuted(content: ParsedContent, muted: Set<string>): ParsedContent {
+  if (muted.size === 0) return content;
+
+  const entries = content.entries.filter((e) => !muted.has(e.id));
+  const newest = entries[entries.length - 1];
+  let version: string;
+  switch (content.layout) {
+    case "changelog":
+      version = entries.length === 1 ? newest.id : `${entries[0].id} → ${newest.id}`;
+      break;
+    case "feed":
+      version = entries.length === 1 ? newest.title : `${newest.title} (+${entries.length - 1} more)`;
+      break;
+    default:
+      version = newest.date ? `${newest.title}:${newest.date}` : newest.title;
+  }
+  return { ...content, version, entries };
+}
+
+// Whether a successful parse has entries to announce
+function hasNewEntries(
+  source: ReleaseSource,
+  result: ParserResult,
+  storedVersion: string | null
+): boolean {
+  if (result.newIds) {
+    // Entry-tracking parser: it already decided what is new
+    if (result.newIds.length === 0) return false;
+  } else {
+    // Compare version/date with stored value
+    if (storedVersion === result.version) return false;
+
+    // Prevent regression: only update if new version is actually newer
+    if (
+      storedVersion &&
+      result.version &&
+      !isNewerIdentifier(result.version, storedVersion, source.parserType)
+    ) {
+      log.warn(
+        `  Extracted ${result.version} is not newer than stored ${storedVersion}, skipping`
+      );
+      return false;
+    }
+  }
+
+  // Guard: if parser returned a change but no content, treat as no change
+  if (!result.content?.entries.length) {
+    log.warn(`  Parser returned change without content, skipping`);
+    return false;
+  }
+
+  return true;
+}
+
+function entryLabel(entry: { title: string; date?: string }): string {
+  return entry.date && entry.date !== entry.title
+    ? `${entry.title} (${entry.date})`
+    : entry.title;
+}
+
+// Diff-style notification for an edited entry, or null when the edit only
+// touched whitespace or blank lines
+function entryUpdatedChange(source: ReleaseSource, edit: EditedEntry): Change | null {
+  const diff = diffLines(edit.previous.body!, edit.current.content);
+  if (diff.added.length === 0 && diff.removed.length === 0) return null;
+
+  return {
+    kind: "entry-updated",
+    version: `Updated: ${entryLabel(edit.current)}`,
+    formattedChanges: `${formatLineDiff(diff)}\n\n${source.releasePageUrl}`,
+    sections: ["```\n" + formatLineDiff(diff) + "\n```"],
+    entries: [
+      {
+        id: edit.current.id,
+        title: edit.current.title,
+        ...(edit.current.date && { date: edit.current.date }),
+        body: edit.current.content,
+      },
+    ],
+    diff,
+  };
+}
+
+// Notification for an entry that was removed from the source, quoting the
+// last known content when it was stored
+function entryRetractedChange(source: ReleaseSource, entry: SeenEntry): Change {
+  const checks = `${entry.missingChecks} check${entry.missingChecks === 1 ? "" : "s"}`;
+  const notice = `No longer listed by ${source.name} (missing for ${checks} in a row).`;
+  return {
+    kind: "entry-retracted",
+    version: `Retracted: ${entryLabel(entry)}`,
+    formattedChanges: [notice, entry.body, source.releasePageUrl].filter(Boolean).join("\n\n"),
+    sections: [notice, entry.body].filter((s): s is string => !!s),
+    entries: [
+      {
+        id: entry.id,
+        title: entry.title,
+        ...(entry.date && { date: entry.date }),
+        ...(entry.body && { body: entry.body }),
+      },
+    ],
+  };
+}
+
 export interface CheckOptions {
   skipSave?: boolean;
+  dryRun?: boolean; // Record new entries as seen, but not as announced
+  beforeSave?: (changes: Change[]) => void; // Called with the changes before the state is saved
+  watchlist?: string[]; // Global watched terms; the source's own are added
+  mute?: MuteRule[]; // Rules for all sources; each rule's `sources` narrows it down
 }
 
 export async function checkSource(source: ReleaseSource, options?: CheckOptions): Promise<CheckResult> {
+  const now = new Date().toISOString();
+  const save = (data: StoredData) => {
+    if (!options?.skipSave) writeStoredData(source, data);
+  };
+  // A failed check keeps the stored entries and counts towards the failure streak
+  const saveFailure = (data: StoredData | null, error: string | undefined) =>
+    save({
+      ...data,
+      lastCheckAt: now,
+      lastError: error,
+      consecutiveFailures: (data?.consecutiveFailures ?? 0) + 1,
+    });
+
+  // Only record errors once state was read, so a failed read can't wipe it
+  let storedData: StoredData | null | undefined;
+
   try {
-    // Get stored data first (needed for markdown multi-version detection)
-    const storedData = readStoredData(source);
+    // Get stored data first (needed for multi-entry detection)
+    storedData = readStoredData(source);
     const storedVersion = storedData?.identifier || null;
+    const history = storedData?.entries ?? [];
 
     // Parse content based on type
     let result: ParserResult;
@@ -679,20 +1627,34 @@ export async function checkSource(source: ReleaseSource, options?: CheckOptions)
 
     switch (source.parserType) {
       case "markdown":
-        // Pass stored version so parseMarkdown can detect ALL missed versions
-        result = await parseMarkdown(source, storedVersion);
+        // Pass stored data so parseMarkdown can detect ALL missed versions
+        result = await parseMarkdown(source, storedData);
         break;
 
       case "wayback":
-        result = await parseWayback(source, storedVersion);
+        result = await parseWayback(source, storedData);
         isTransient = true; // Wayback failures are transient
         break;
 
+      case "feed":
+        result = await parseFeed(source, storedData);
+        break;
+
+      case "github-releases":
+        result = await parseGitHubReleases(source, storedData);
+        break;
+
+      case "npm":
+      case "pypi":
+        result = await parsePackageRegistry(source, storedData);
+        break;
+
       default:
         return { source, hasChanged: false, error: "Unknown parser type" };
     }
 
     if (!result.success) {
+      saveFailure(storedData, result.error);
       return {
         source,
         hasChanged: false,
@@ -701,44 +1663,117 @@ export async function checkSource(source: ReleaseSource, options?: CheckOptions)
       };
     }
 
-    // Compare version/date with stored value
-    if (storedVersion === result.version) {
-      return { source, hasChanged: false };
-    }
-
-    // Prevent regression: only update if new version is actually newer
-    // Skip for parsers that handle their own newness detection (e.g., blog title matching)
-    if (
-      !result.skipRegressionCheck &&
-      storedVersion &&
-      result.version &&
-      !isNewerIdentifier(result.version, storedVersion, source.parserType)
-    ) {
-      log.warn(
-        `  Extracted ${result.version} is not newer than stored ${storedVersion}, skipping`
-      );
-      return { source, hasChanged: false };
-    }
-
-    // Guard: if parser returned a change but no content, treat as no change
-    if (!result.content?.formattedChanges) {
-      log.warn(`  Parser returned change without content, skipping`);
-      return { source, hasChanged: false };
-    }
+    const entries = result.entries ?? [];
+    const hasNew = hasNewEntries(source, result, storedVersion);
+
+    // Muted entries are recorded like the others, but never announced
+    const muteRules = options?.mute ?? [];
+    const parsed = hasNew ? result.content! : null;
+    const muted = new Set(
+      (parsed?.entries ?? []).filter((e) => isMuted(muteRules, source, e)).map((e) => e.id)
+    );
+
+    // Edits to entries announced before this check (opt-in per source)
+    const edits = source.detectEdits
+      ? findEditedEntries(history, entries)
+          .filter((e) => !result.newIds?.includes(e.current.id))
+          .map((e) => entryUpdatedChange(source, e))
+          .filter((c): c is Change => c !== null)
+      : [];
+    const updates = edits.filter(
+      (c) => !c.entries?.every((e) => isMuted(muteRules, source, e))
+    );
+    const suppressed = muted.size + edits.length - updates.length;
+
+    const content = parsed && muted.size < parsed.entries.length ? withoutMuted(parsed, muted) : null;
+
+    // Watched terms in the entries announced now are remembered with them
+    const watchlist = [...(options?.watchlist ?? []), ...(source.watchlist ?? [])];
+    const watchMatches = new Map(
+      [...(content?.entries ?? []), ...updates.flatMap((c) => c.entries ?? [])]
+        .map((e) => [e.id, entryWatchMatches(e, watchlist)] as const)
+        .filter(([, matches]) => matches.length > 0)
+    );
+
+    // Announced entries get notifiedAt; the identifier moves only with new
+    // entries. A dry run announces nothing, so history doesn't list them.
+    const notified = new Set(
+      hasNew && !options?.dryRun ? result.newIds?.filter((id) => !muted.has(id)) : []
+    );
+    const capturedAt = result.snapshotTimestamp
+      ? (snapshotTime(result.snapshotTimestamp) ?? undefined)
+      : undefined;
+    const recorded = recordMuted(
+      recordWatchMatches(
+        recordEntries(history, entries, notified, now, capturedAt),
+        watchMatches
+      ),
+      muted,
+      now
+    );
+
+    // Entries gone from the page for retractAfter checks in a row
+    const retractAfter = source.retractAfter ?? DEFAULT_RETRACT_AFTER;
+    const retracted = retractAfter > 0 ? findRetractedEntries(recorded, retractAfter) : [];
+    const retractedIds = new Set(retracted.map((e) => e.id));
+
+    // Muted entries that disappear aren't announced either
+    const announcedRetractions = retracted.filter((e) => !e.mutedAt);
+    const announces = Boolean(content) || updates.length > 0 || announcedRetractions.length > 0;
+
+    const changes: Change[] = [
+      ...(content
+        ? [
+            {
+              kind: "new-entry" as const,
+              version: content.version,
+              ...formatEntries(source, content.layout, content.entries),
+              entries: content.entries,
+            },
+          ]
+        : []),
+      ...updates,
+      ...announcedRetractions.map((e) => entryRetractedChange(source, e)),
+    ].map((change) => watchChange(change, watchlist));
+
+    // The state marks these entries as announced, so whatever sends them
+    // (the outbox) records them first
+    if (announces) options?.beforeSave?.(changes);
+
+    const identifier = hasNew ? result.version : storedVersion;
+    const lastChangeAt = announces ? now : storedData?.lastChangeAt;
+    const snapshotTimestamp = result.snapshotTimestamp ?? storedData?.snapshotTimestamp;
+    save({
+      ...(identifier && { identifier }),
+      entries: recorded.map((e) => (retractedIds.has(e.id) ? { ...e, retractedAt: now } : e)),
+      lastCheckAt: now,
+      lastSuccessAt: now,
+      ...(lastChangeAt && { lastChangeAt }),
+      ...(snapshotTimestamp && { snapshotTimestamp }),
+    });
 
-    // Change detected - save new identifier (unless skipped)
-    if (!options?.skipSave) {
-      writeStoredData(source, { identifier: result.version });
+    if (!announces) {
+      return { source, hasChanged: false, ...(suppressed > 0 && { suppressed }) };
     }
 
     return {
       source,
       hasChanged: true,
-      version: result.content!.version,
-      formattedChanges: result.content!.formattedChanges,
+      ...(content && {
+        version: changes[0].version,
+        formattedChanges: changes[0].formattedChanges,
+        entries: content.entries,
+      }),
+      changes,
+      ...(changes.some((c) => c.watchMatches) && { priority: true }),
+      ...(suppressed > 0 && { suppressed }),
+      ...(result.strategy && { strategy: result.strategy }),
     };
   } catch (err) {
     const errorMsg = err instanceof Error ? err.message : String(err);
+    if (storedData !== undefined) {
+      saveFailure(storedData, errorMsg);
+    }
     return { source, hasChanged: false, error: errorMsg };
   }
 }
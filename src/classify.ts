@@ -0,0 +1,133 @@
+// Sort the bullets of a changelog entry into categories, so notifications can
+// list breaking changes first under labelled groups
+
+export const BULLET_CATEGORIES = [
+  "breaking",
+  "security",
+  "deprecated",
+  "added",
+  "changed",
+  "fixed",
+  "other",
+] as const;
+export type BulletCategory = (typeof BULLET_CATEGORIES)[number];
+
+export const CATEGORY_LABELS: Record<BulletCategory, string> = {
+  breaking: "Breaking",
+  security: "Security",
+  deprecated: "Deprecated",
+  added: "Added",
+  changed: "Changed",
+  fixed: "Fixed",
+  other: "Other",
+};
+
+export interface ClassifiedChanges {
+  body: string; // Bullets grouped under "### Label" headings, or the input as is
+  categories: string[]; // Labels of the categories found, in display order
+  uncategorized: boolean; // Some bullets fit no category ("Other")
+}
+
+// Sub-headings as used by Keep a Changelog, release tools and hand-written
+// changelogs
+const HEADING_CATEGORIES: [RegExp, BulletCategory][] = [
+  [/breaking/i, "breaking"],
+  [/^removed?$/i, "breaking"],
+  [/security/i, "security"],
+  [/deprecat/i, "deprecated"],
+  [/^(added|new|(new )?features?)$/i, "added"],
+  [/^(fixed|fixes|bug ?fixes)$/i, "fixed"],
+  [/^(changed|changes|improved|improvements?|updated?|updates|enhancements?|performance)$/i, "changed"],
+];
+
+// Conventional commit types ("feat(cli): ...", "fix: ...")
+const COMMIT_TYPES: Record<string, BulletCategory> = {
+  feat: "added",
+  fix: "fixed",
+  perf: "changed",
+  refactor: "changed",
+};
+
+// First word of a bullet
+const VERB_CATEGORIES: [RegExp, BulletCategory][] = [
+  [/^(remov|drop)\w*\b/i, "breaking"],
+  [/^(add|adds|added|new|introduc\w*|support\w*|enabl\w*|allow\w*)\b/i, "added"],
+  [/^(fix|fixes|fixed|resolv\w*|correct\w*|prevent\w*|avoid\w*)\b/i, "fixed"],
+  [
+    /^(improv|updat|chang|enhanc|better|faster|reduc|increas|optimi|renam|mov|made|make|now|show|switch|upgrad|refin|polish|speed)\w*\b/i,
+    "changed",
+  ],
+];
+
+export function headingCategory(heading: string): BulletCategory | undefined {
+  const text = heading.replace(/^#+\s*/, "").replace(/[*_:]/g, "").trim();
+  return HEADING_CATEGORIES.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+// Breaking, security and deprecation keywords win over the sub-heading a
+// bullet is listed under; the sub-heading wins over the bullet's wording
+export function classifyBullet(text: string, heading?: BulletCategory): BulletCategory {
+  const bullet = text.replace(/^[-*+]\s+/, "").replace(/^\*\*|^\[[^\]]*\]\s*/g, "").trim();
+  const commit = bullet.match(/^(\w+)(\([^)]*\))?(!)?:\s*/);
+
+  if (/\bbreaking\b/i.test(bullet) || commit?.[3]) return "breaking";
+  if (/\b(security|vulnerabilit(y|ies)|CVE-\d{4}-\d+)\b/i.test(bullet)) return "security";
+  if (/\bdeprecat/i.test(bullet)) return "deprecated";
+  if (heading) return heading;
+  if (commit && COMMIT_TYPES[commit[1].toLowerCase()]) return COMMIT_TYPES[commit[1].toLowerCase()];
+
+  const words = commit ? bullet.slice(commit[0].length) : bullet;
+  const verb = VERB_CATEGORIES.find(([pattern]) => pattern.test(words))?.[1];
+  if (verb) return verb;
+  return /\b(bugs?|crash\w*|regression)\b/i.test(words) ? "fixed" : "other";
+}
+
+// Group an entry's top-level bullets by category (nested lines stay with
+// their bullet). Entries whose layout isn't "heading, text, bullets" (text
+// between bullets, unknown sub-headings) keep their body and only get
+// categories; so do entries where nothing could be classified.
+export function classifyChanges(markdown: string): ClassifiedChanges {
+  const [title, ...lines] = markdown.split("\n");
+  const intro: string[] = [];
+  const bullets: { lines: string[]; category: BulletCategory }[] = [];
+  let heading: BulletCategory | undefined;
+  let regroup = true;
+
+  for (const line of lines) {
+    if (/^#+\s/.test(line)) {
+      heading = headingCategory(line);
+      if (!heading) regroup = false;
+    } else if (/^[-*+]\s/.test(line)) {
+      bullets.push({ lines: [line], category: classifyBullet(line, heading) });
+    } else if (!line.trim()) {
+      continue;
+    } else if (bullets.length > 0 && /^\s/.test(line)) {
+      bullets[bullets.length - 1].lines.push(line);
+    } else if (bullets.length === 0 && heading === undefined) {
+      intro.push(line);
+    } else {
+      regroup = false;
+    }
+  }
+
+  const found = BULLET_CATEGORIES.filter((c) => bullets.some((b) => b.category === c));
+  const categories = found.filter((c) => c !== "other").map((c) => CATEGORY_LABELS[c]);
+  const uncategorized = found.includes("other");
+  if (!regroup || categories.length === 0) {
+    return { body: markdown, categories, uncategorized };
+  }
+
+  const groups = found.map(
+    (category) =>
+      `### ${CATEGORY_LABELS[category]}\n` +
+      bullets
+        .filter((b) => b.category === category)
+        .flatMap((b) => b.lines)
+        .join("\n")
+  );
+  return {
+    body: [title, ...(intro.length > 0 ? [intro.join("\n")] : []), ...groups].join("\n\n"),
+    categories,
+    uncategorized,
+  };
+}
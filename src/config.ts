@@ -1,52 +1,185 @@
 import path from "path";
 
-export type SourceId = "claude-code" | "claude-blog" | "gemini" | "chatgpt";
+// Source ids come from sources.json, so they can't be a closed union anymore
+export type SourceId = string;
+
+export const PARSER_TYPES = [
+  "markdown",
+  "wayback",
+  "feed",
+  "github-releases",
+  "npm",
+  "pypi",
+] as const;
+export type ParserType = (typeof PARSER_TYPES)[number];
+
+// Parser-specific settings; each parser type documents the keys it reads
+export interface ParserOptions {
+  [key: string]: unknown;
+}
+
+// How a "wayback" source fetches its page: the live site or the newest
+// Wayback Machine snapshot
+export const FETCH_STRATEGIES = ["live", "wayback"] as const;
+export type FetchStrategy = (typeof FETCH_STRATEGIES)[number];
+
+// "date-sections": a page of dated sections (Gemini, ChatGPT release notes)
+// "heading-posts": a listing of headings each followed by a date (blog index)
+export const ENTRY_MODES = ["date-sections", "heading-posts"] as const;
+export type EntryMode = (typeof ENTRY_MODES)[number];
+
+// "month-day-year": "January 12, 2026"; "year-month-day": "2026.01.12" / "2026-01-12"
+export const DATE_FORMATS = ["month-day-year", "year-month-day"] as const;
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+// parserOptions for "wayback"
+export interface HtmlPageOptions {
+  strategies?: FetchStrategy[]; // Tried in order; default ["wayback"]
+  entryMode?: EntryMode; // Default "date-sections"
+  dateFormat?: DateFormat; // Default "month-day-year"
+  datePattern?: string; // Regex source for dates; default derived from dateFormat
+  headingLevels?: number[]; // heading-posts: heading levels that can be post titles (default 1-6)
+  linkPattern?: string; // heading-posts: regex a post link must match (default: first link)
+  maxBodyLength?: number; // date-sections: characters of each entry's text in notifications; 0 = title only
+  fetchArticles?: boolean; // heading-posts: fetch new posts' pages for a lead paragraph when the listing has no excerpt
+}
+
+export const DEFAULT_MAX_BODY_LENGTH = 1500;
+
+// parserOptions for "github-releases"
+export interface GitHubReleasesOptions {
+  repo: string; // "owner/repo"
+  includePrereleases?: boolean;
+  includeDrafts?: boolean; // Drafts are only visible with a token that has push access
+  tokenEnv?: string; // Env var holding a GitHub token (default GITHUB_TOKEN)
+  apiBaseUrl?: string; // Default DEFAULT_GITHUB_API_URL; point at a stand-in for tests
+}
+
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+
+// parserOptions for "npm" and "pypi"
+export interface PackageRegistryOptions {
+  package: string; // e.g. "@anthropic-ai/sdk" or "openai"
+  includePrereleases?: boolean;
+  registryUrl?: string; // Default DEFAULT_NPM_REGISTRY_URL / DEFAULT_PYPI_URL
+}
+
+export const DEFAULT_NPM_REGISTRY_URL = "https://registry.npmjs.org";
+export const DEFAULT_PYPI_URL = "https://pypi.org";
 
 export interface ReleaseSource {
   id: SourceId;
   name: string;
   url: string;
-  parserType: "markdown" | "wayback";
+  parserType: ParserType;
   stateFile: string;
   releasePageUrl: string;
+  parserOptions?: ParserOptions;
+  notify?: string[]; // Target names from sources.json; defaults to all targets
+  detectEdits?: boolean; // Also announce edits to already-announced entries
+  retractAfter?: number; // Checks an entry must be missing before it counts as retracted; 0 = off
+  watchlist?: string[]; // Terms or /regexes/ that make a change a priority, on top of the global ones
+}
+
+export const DEFAULT_RETRACT_AFTER = 3;
+
+// What a check reports (and routes can match):
+// "new-entry": entries that were never seen before (one change for all of them)
+// "entry-updated": an already-announced entry whose content was edited
+// "entry-retracted": a seen entry that was removed from the source
+// A "digest" summarizes changes collected for a digest target.
+export const CHANGE_KINDS = ["new-entry", "entry-updated", "entry-retracted"] as const;
+export type ChangeKind = (typeof CHANGE_KINDS)[number] | "digest";
+
+// Where a target delivers: a Slack webhook, a Discord webhook, a Microsoft
+// Teams incoming webhook, any URL that takes a JSON body built from a
+// template, or email over SMTP
+export const NOTIFIER_TYPES = ["slack", "discord", "teams", "webhook", "email"] as const;
+export type NotifierType = (typeof NOTIFIER_TYPES)[number];
+
+// "workflow": flat payload for a Workflow Builder trigger
+// "blocks": Block Kit message for an ordinary incoming webhook
+export const SLACK_FORMATS = ["workflow", "blocks"] as const;
+export type SlackFormat = (typeof SLACK_FORMATS)[number];
+
+// Request body of a "webhook" target. "{{name}}" placeholders in strings are
+// replaced with notification fields; a string template is the raw body, so
+// values are inserted JSON-escaped.
+export type WebhookTemplate = string | Record<string, unknown> | unknown[];
+
+// "starttls": plain connection upgraded with STARTTLS (port 587)
+// "tls": TLS from the start (port 465)
+// "none": no encryption (local relays and test servers only)
+export const SMTP_SECURITY_MODES = ["starttls", "tls", "none"] as const;
+export type SmtpSecurity = (typeof SMTP_SECURITY_MODES)[number];
+
+export const DEFAULT_SMTP_PORT = 587;
+
+// How often a digest target gets its summary: after each UTC day, or each
+// week (Monday to Sunday, UTC)
+export const DIGEST_PERIODS = ["daily", "weekly"] as const;
+export type DigestPeriod = (typeof DIGEST_PERIODS)[number];
+
+export const DEFAULT_DIGEST_PERIOD: DigestPeriod = "daily";
+
+export interface NotificationTarget {
+  type?: NotifierType; // Default "slack"
+  webhookUrlEnv?: string; // Name of the env var holding the webhook URL; all types but email
+  format?: SlackFormat; // slack only; default "workflow"
+  maxMessageLength?: number; // Characters per message before splitting; default per type
+  collapseAfter?: number; // Post a summary + link instead of more than this many messages
+  template?: WebhookTemplate; // webhook only, required
+  bodyTemplate?: string; // Message text as a template (see template.ts); all types but webhook
+  smtpHost?: string; // email only, required
+  smtpPort?: number; // email; default DEFAULT_SMTP_PORT
+  smtpSecurity?: SmtpSecurity; // email; default "starttls"
+  smtpUserEnv?: string; // email: env vars holding the SMTP credentials (no auth when unset)
+  smtpPasswordEnv?: string;
+  from?: string; // email only, required
+  to?: string[]; // email only, required: recipients
+  toBySource?: Record<SourceId, string[]>; // email: recipients for these sources instead of `to`
+  digest?: DigestPeriod; // Collect changes into one summary per period instead of alerting
+  priorityMention?: string; // Sent with changes that mention a watched term, e.g. "<!here>" on Slack
 }
 
-export const SOURCES: Record<SourceId, ReleaseSource> = {
-  "claude-code": {
-    id: "claude-code",
-    name: "Claude Code",
-    url: "https://raw.githubusercontent.com/anthropics/claude-code/main/CHANGELOG.md",
-    parserType: "markdown",
-    stateFile: "claude-code.json",
-    releasePageUrl: "https://github.com/anthropics/claude-code/blob/main/CHANGELOG.md",
-  },
-  "claude-blog": {
-    id: "claude-blog",
-    name: "Claude Blog",
-    url: "https://claude.com/blog",
-    parserType: "wayback",
-    stateFile: "claude-blog.json",
-    releasePageUrl: "https://claude.com/blog",
-  },
-  gemini: {
-    id: "gemini",
-    name: "Gemini",
-    url: "https://gemini.google/release-notes/",
-    parserType: "wayback",
-    stateFile: "gemini.json",
-    releasePageUrl: "https://gemini.google/release-notes/",
-  },
-  chatgpt: {
-    id: "chatgpt",
-    name: "ChatGPT",
-    url: "https://help.openai.com/en/articles/6825453-chatgpt-release-notes",
-    parserType: "wayback",
-    stateFile: "chatgpt.json",
-    releasePageUrl:
-      "https://help.openai.com/en/articles/6825453-chatgpt-release-notes",
-  },
-};
-
-export const SLACK_WEBHOOK_URL = process.env.SLACK_WEBHOOK_URL || "";
+// Slack's limit for a Block Kit section, also a readable size for Workflow messages
+export const DEFAULT_MAX_MESSAGE_LENGTH = 3000;
+export const DISCORD_MAX_MESSAGE_LENGTH = 4096; // Embed description limit
+export const TEAMS_MAX_MESSAGE_LENGTH = 20000; // Teams rejects messages over ~28 KB
+
+// Sends matching changes to more targets. A rule matches when every
+// condition it sets matches; a rule without conditions matches everything.
+export interface RoutingRule {
+  sources?: SourceId[];
+  kinds?: ChangeKind[];
+  keywords?: string[]; // Any of them, case-insensitive, at the start of a word
+  priority?: boolean; // Only changes that mention a watched term
+  targets: string[];
+}
+
+// Suppresses matching entries: they are recorded as seen but never announced.
+// A rule mutes an entry when every condition it sets matches.
+export interface MuteRule {
+  sources?: SourceId[];
+  pattern?: string; // Regex on the entry's title and text, case-insensitive
+  minBodyLength?: number; // Entries with less text than this
+  categories?: string[]; // Entries whose categories are all in this list
+}
+
+export interface SourceRegistry {
+  sources: Record<SourceId, ReleaseSource>;
+  targets: Record<string, NotificationTarget>;
+  routes: RoutingRule[];
+  watchlist: string[]; // Watched terms for every source
+  mute: MuteRule[];
+}
 
 export const DATA_DIR = path.join(process.cwd(), ".data");
+
+// Notifications waiting to be delivered and changes collected for digests,
+// in DATA_DIR next to the state files
+export const OUTBOX_FILE = "outbox.json";
+export const DIGEST_FILE = "digest.json";
+
+export const SOURCES_FILE =
+  process.env.SOURCES_FILE || path.join(process.cwd(), "sources.json");
@@ -0,0 +1,53 @@
+export interface LineDiff {
+  added: string[];
+  removed: string[];
+}
+
+function toLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+// Line-based diff of two texts (longest common subsequence). Blank lines and
+// indentation are ignored; lines keep their order from the respective text.
+export function diffLines(before: string, after: string): LineDiff {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  removed.push(...a.slice(i));
+  added.push(...b.slice(j));
+
+  return { added, removed };
+}
+
+// "- old line" / "+ new line" listing, removals first
+export function formatLineDiff(diff: LineDiff): string {
+  return [
+    ...diff.removed.map((line) => `- ${line}`),
+    ...diff.added.map((line) => `+ ${line}`),
+  ].join("\n");
+}
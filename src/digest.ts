@@ -0,0 +1,121 @@
+import fs from "fs";
+import path from "path";
+import { DATA_DIR, DIGEST_FILE, DigestPeriod, SourceId, SourceRegistry } from "./config";
+import { Change } from "./changelog";
+import { ensureDataDir } from "./hash-store";
+import { NotificationSource } from "./notifier";
+
+// Sender of digest notifications (they span several sources)
+export const DIGEST_SOURCE: NotificationSource = { id: "digest", name: "Changelog digest" };
+
+export interface DigestItem {
+  sourceId: SourceId;
+  change: Change;
+  collectedAt: string; // ISO 8601
+}
+
+export interface PendingDigest {
+  since: string; // When the first item was collected (ISO 8601)
+  items: DigestItem[];
+}
+
+// Pending digests by target name
+export type DigestStore = Record<string, PendingDigest>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function readDigests(): DigestStore {
+  try {
+    const store = JSON.parse(fs.readFileSync(path.join(DATA_DIR, DIGEST_FILE), "utf8"));
+    return typeof store === "object" && store !== null && !Array.isArray(store) ? store : {};
+  } catch {
+    return {}; // Nothing collected yet
+  }
+}
+
+export function writeDigests(store: DigestStore): void {
+  ensureDataDir();
+  fs.writeFileSync(path.join(DATA_DIR, DIGEST_FILE), JSON.stringify(store));
+}
+
+export function collectForDigest(
+  store: DigestStore,
+  target: string,
+  sourceId: SourceId,
+  change: Change,
+  now: Date = new Date()
+): DigestStore {
+  const pending = store[target] ?? { since: now.toISOString(), items: [] };
+  return {
+    ...store,
+    [target]: {
+      ...pending,
+      items: [...pending.items, { sourceId, change, collectedAt: now.toISOString() }],
+    },
+  };
+}
+
+// Start of the next period after `since`: the next UTC midnight, or the next
+// Monday 00:00 UTC
+export function periodEnd(period: DigestPeriod, since: Date): Date {
+  const midnight = Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), since.getUTCDate());
+  const days = period === "daily" ? 1 : (8 - since.getUTCDay()) % 7 || 7;
+  return new Date(midnight + days * DAY_MS);
+}
+
+export function isDigestDue(pending: PendingDigest, period: DigestPeriod, now: Date): boolean {
+  return pending.items.length > 0 && periodEnd(period, new Date(pending.since)) <= now;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// "Daily digest, 2026-03-02" / "Weekly digest, 2026-02-23 to 2026-03-01"
+export function digestTitle(period: DigestPeriod, since: Date): string {
+  const last = new Date(periodEnd(period, since).getTime() - DAY_MS);
+  return period === "daily"
+    ? `Daily digest, ${isoDate(last)}`
+    : `Weekly digest, ${isoDate(new Date(last.getTime() - 6 * DAY_MS))} to ${isoDate(last)}`;
+}
+
+// One line per entry: the first line of each new entry, the label of
+// updates and retractions
+function digestLines(change: Change): string[] {
+  if (change.kind === "new-entry" && change.sections && change.sections.length > 0) {
+    return change.sections.map((s) => s.trim().split("\n")[0].replace(/^#+\s*/, ""));
+  }
+  return [change.version];
+}
+
+// A single notification with a section per source (in the order they were
+// collected), each with the number of changes, the entries and a link
+export function buildDigest(
+  registry: SourceRegistry,
+  pending: PendingDigest,
+  period: DigestPeriod
+): Change {
+  const bySource = new Map<SourceId, string[]>();
+  for (const item of pending.items) {
+    bySource.set(item.sourceId, [...(bySource.get(item.sourceId) ?? []), ...digestLines(item.change)]);
+  }
+
+  const sections = [...bySource].map(([id, lines]) => {
+    const source = registry.sources[id];
+    const count = lines.length === 1 ? "1 change" : `${lines.length} changes`;
+    return [
+      `### ${source?.name ?? id} (${count})`,
+      lines.map((line) => `- ${line}`).join("\n"),
+      source?.releasePageUrl,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return {
+    kind: "digest",
+    version: digestTitle(period, new Date(pending.since)),
+    formattedChanges: sections.join("\n\n---\n\n"),
+    sections,
+  };
+}
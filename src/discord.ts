@@ -0,0 +1,75 @@
+import { DISCORD_MAX_MESSAGE_LENGTH } from "./config";
+import { truncate } from "./format";
+import { postJson } from "./http";
+import { SlackOptions, SlackPayload, SlackResult, splitSlackMessage } from "./slack";
+
+// Discord limits (https://discord.com/developers/docs/resources/message#embed-object-embed-limits)
+const EMBED_TITLE_LIMIT = 256;
+
+export type DiscordOptions = Omit<SlackOptions, "format">;
+
+export interface DiscordMessage {
+  content?: string; // Mentions only notify from here, not from embeds
+  embeds: {
+    title: string;
+    description: string;
+    url?: string;
+    footer?: { text: string };
+  }[];
+}
+
+// One embed per message: title with source and version, the changes as its
+// description (Discord renders the changelog markdown as-is)
+export function buildDiscordMessage(
+  payload: SlackPayload,
+  link?: string,
+  mention?: string
+): DiscordMessage {
+  return {
+    ...(mention && { content: mention }),
+    embeds: [
+      {
+        title: truncate(`${payload.source} ${payload.version}`, EMBED_TITLE_LIMIT),
+        description: payload.changes,
+        ...(link && { url: link }),
+        ...(payload.test === "yes" && { footer: { text: "Test notification" } }),
+      },
+    ],
+  };
+}
+
+// Post to a Discord webhook, split like Slack messages but at the embed
+// description limit
+export async function sendDiscordNotification(
+  webhookUrl: string,
+  payload: SlackPayload,
+  options: DiscordOptions = {}
+): Promise<SlackResult> {
+  if (!webhookUrl) {
+    return { success: false, error: "No webhook URL configured" };
+  }
+
+  const parts = splitSlackMessage(payload, {
+    ...options,
+    maxLength: options.maxLength ?? DISCORD_MAX_MESSAGE_LENGTH,
+  });
+  for (const [i, part] of parts.entries()) {
+    if (i < (options.skipParts ?? 0)) continue;
+    const result = await postJson(
+      webhookUrl,
+      JSON.stringify(
+        buildDiscordMessage(part.payload, options.link, i === 0 ? options.mention : undefined)
+      )
+    );
+    if (!result.success) {
+      return parts.length > 1
+        ? {
+            success: false,
+            error: `Message ${i + 1}/${parts.length}: ${result.error}`,
+            partsSent: i,
+          }
+        : result;
+    }
+  }
+  return { success: true };
+}
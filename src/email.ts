@@ -0,0 +1,115 @@
+import * as log from "./logger";
+import { MailMessage, sendMail, SmtpOptions } from "./smtp";
+import { SlackPayload, SlackResult } from "./slack";
+
+export interface EmailOptions {
+  from: string;
+  to: string[];
+  link?: string; // Release notes page, added below the changes
+  mention?: string; // Subject prefix for priority changes, e.g. "[Priority]"
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Inline markdown: **bold**, *italic*, `code`, [text](url) and bare URLs
+function inlineHtml(text: string): string {
+  return escapeHtml(text)
+    .replace(/`([^`]+)`/g, "<code>$1</code>")
+    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^*\w])\*(?!\s)([^*]+?)\*(?!\w)/g, "$1<em>$2</em>")
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/(^|[\s(])(https?:\/\/[^\s<)]+)/g, '$1<a href="$2">$2</a>');
+}
+
+// Changelog markdown to simple HTML: headings, bullet lists, "---" rules
+// and paragraphs. Anything else is shown as text.
+export function markdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  let list: string[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (list.length > 0) html.push(`<ul>${list.map((i) => `<li>${i}</li>`).join("")}</ul>`);
+    if (paragraph.length > 0) html.push(`<p>${paragraph.join("<br>")}</p>`);
+    list = [];
+    paragraph = [];
+  };
+
+  for (const raw of markdown.split("\n")) {
+    const line = raw.trim();
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*$/);
+    const bullet = line.match(/^[-*+]\s+(.*)$/);
+
+    if (!line) {
+      flush();
+    } else if (/^-{3,}$/.test(line)) {
+      flush();
+      html.push("<hr>");
+    } else if (heading) {
+      flush();
+      html.push(`<h3>${inlineHtml(heading[1])}</h3>`);
+    } else if (bullet) {
+      if (paragraph.length > 0) flush();
+      list.push(inlineHtml(bullet[1]));
+    } else {
+      if (list.length > 0) flush();
+      paragraph.push(inlineHtml(line));
+    }
+  }
+  flush();
+
+  return html.join("\n");
+}
+
+// Subject "[Source] version" (after the mention, if any), plain text as posted to chat, and an HTML
+// version of the same content
+export function renderEmail(payload: SlackPayload, options: EmailOptions): MailMessage {
+  const testPrefix = payload.test === "yes" ? "[TEST] " : "";
+  const link = options.link && !payload.changes.includes(options.link) ? options.link : "";
+  const heading = `${payload.source} ${payload.version}`;
+
+  return {
+    from: options.from,
+    to: options.to,
+    subject: `${testPrefix}${options.mention ? `${options.mention} ` : ""}[${payload.source}] ${payload.version}`,
+    text: [heading, payload.changes, link].filter(Boolean).join("\n\n"),
+    html: [
+      "<!DOCTYPE html>",
+      '<html><body style="font-family: sans-serif">',
+      `<h2>${escapeHtml(heading)}</h2>`,
+      markdownToHtml(payload.changes),
+      link ? `<p><a href="${escapeHtml(link)}">View release notes</a></p>` : "",
+      "</body></html>",
+    ]
+      .filter(Boolean)
+      .join("\n"),
+  };
+}
+
+export async function sendEmailNotification(
+  smtp: SmtpOptions,
+  payload: SlackPayload,
+  options: EmailOptions
+): Promise<SlackResult> {
+  if (options.to.length === 0) {
+    return { success: false, error: "No email recipients configured" };
+  }
+
+  log.info(`  SMTP ${smtp.host}:${smtp.port} (${smtp.security}) to ${options.to.join(", ")}`);
+
+  try {
+    await sendMail(smtp, renderEmail(payload, options));
+    log.info(`  Message accepted`);
+    return { success: true };
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    log.error(`  ${errorMsg}`);
+    return { success: false, error: errorMsg };
+  }
+}
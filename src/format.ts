@@ -0,0 +1,76 @@
+import { ReleaseSource } from "./config";
+import { EntryLayout, ReleaseEntry } from "./changelog";
+
+// Max summary length of feed items and blog excerpts in notifications
+const SUMMARY_LENGTH = 280;
+
+export interface FormattedEntries {
+  formattedChanges: string;
+  sections: string[]; // One per entry, in the order given
+}
+
+// Shorten text to maxLength characters, ending with "…" when cut
+export function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+function titleWithDate(entry: ReleaseEntry): string {
+  return entry.date ? `${entry.title} (${entry.date})` : entry.title;
+}
+
+// "By Jane Doe, Ann Lee · Product, News"
+function byline(entry: ReleaseEntry): string {
+  return [entry.authors?.length && `By ${entry.authors.join(", ")}`, entry.categories?.join(", ")]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// Default message text for announced entries (oldest first):
+//   changelog: each entry's markdown, separated by "---"
+//   dated:     "Title (date)" and the entry's text, separated by "---", with
+//              the release notes link once at the end
+//   posts:     "Title (date): url" per entry, then authors, categories and
+//              the shortened excerpt when known
+//   feed:      title, shortened summary and link per entry
+export function formatEntries(
+  source: ReleaseSource,
+  layout: EntryLayout,
+  entries: ReleaseEntry[]
+): FormattedEntries {
+  switch (layout) {
+    case "changelog": {
+      const sections = entries.map((e) => e.body ?? e.title);
+      return { formattedChanges: sections.join("\n\n---\n\n"), sections };
+    }
+
+    case "dated": {
+      const sections = entries.map((e) => [titleWithDate(e), e.body].filter(Boolean).join("\n"));
+      return {
+        formattedChanges: `${sections.join("\n\n---\n\n")}\n\n${source.releasePageUrl}`,
+        sections,
+      };
+    }
+
+    case "posts": {
+      const sections = entries.map((e) =>
+        [
+          `${titleWithDate(e)}: ${e.url || source.releasePageUrl}`,
+          byline(e),
+          truncate(e.body ?? "", SUMMARY_LENGTH),
+        ]
+          .filter(Boolean)
+          .join("\n")
+      );
+      return { formattedChanges: sections.join("\n\n"), sections };
+    }
+
+    case "feed": {
+      const sections = entries.map((e) =>
+        [titleWithDate(e), truncate(e.body ?? "", SUMMARY_LENGTH), e.url]
+          .filter(Boolean)
+          .join("\n")
+      );
+      return { formattedChanges: sections.join("\n\n"), sections };
+    }
+  }
+}
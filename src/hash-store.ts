@@ -1,9 +1,196 @@
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
 import { DATA_DIR, ReleaseSource } from "./config";
 
+// Max entries remembered per source. Parsers only consider this many entries
+// from the top of a page, so every entry they look at can be in history.
+export const HISTORY_LIMIT = 200;
+
+export interface SeenEntry {
+  id: string; // Stable key: version, date, post title or feed guid
+  title: string;
+  date?: string;
+  hash: string; // Content hash, see hashContent()
+  firstSeenAt: string; // ISO timestamps
+  notifiedAt?: string;
+  body?: string; // Announced entry content, for edit diffs and `history` searches
+  missingChecks?: number; // Consecutive checks the entry was removed from the page
+  retractedAt?: string; // When the "entry retracted" notification was sent
+  watchMatches?: string[]; // Watched terms the entry mentioned when announced
+  mutedAt?: string; // When a mute rule kept the entry from being announced
+}
+
 export interface StoredData {
   identifier?: string; // Comparison key: semver for Claude, date for Gemini/ChatGPT
+  entries?: SeenEntry[]; // Entry history, page order first, bounded by HISTORY_LIMIT
+  lastCheckAt?: string;
+  lastError?: string; // Error from the most recent check, cleared on success
+  lastSuccessAt?: string; // Most recent check that fetched and parsed the source
+  lastChangeAt?: string; // Most recent check that announced something
+  consecutiveFailures?: number; // Failed checks since the last success, cleared on success
+  snapshotTimestamp?: string; // Wayback snapshot of the most recent check that used one
+}
+
+// What a parser reports about each entry currently on the page
+export interface EntrySnapshot {
+  id: string;
+  title: string;
+  date?: string;
+  content: string;
+}
+
+// Short, whitespace-insensitive content hash
+export function hashContent(content: string): string {
+  const normalized = content.replace(/\s+/g, " ").trim();
+  return crypto.createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+}
+
+// Upgrade older state files in place:
+// - {"identifier": ...} files are valid as-is; history starts empty
+// - {"seenIds": [...]} (feed sources) become history entries
+export function migrateStoredData(raw: StoredData & { seenIds?: string[] }): StoredData {
+  const { seenIds, ...data } = raw;
+  if (seenIds && !data.entries) {
+    data.entries = seenIds.map((id) => ({ id, title: id, hash: "", firstSeenAt: "" }));
+  }
+  return data;
+}
+
+// "20260115123456" -> "2026-01-15T12:34:56.000Z"; null if not a timestamp
+export function snapshotTime(timestamp: string): string | null {
+  const m = timestamp.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}.000Z` : null;
+}
+
+// Ids of all remembered entries, or null when there is no history yet
+// (first run, or a state file from before history was recorded)
+export function getSeenIds(data: StoredData | null): Set<string> | null {
+  if (!data?.entries?.length) return null;
+  return new Set(data.entries.map((e) => e.id));
+}
+
+// Merge the entries currently on the page into history, in page order.
+// Entries missing from the page stay where they were (after the entry that
+// preceded them) until the limit pushes them out. A missing entry that sits
+// above an entry still on the page was removed rather than scrolled off, so
+// its missingChecks count goes up; otherwise the count is cleared. Entries
+// first seen after the page was captured (an older Wayback snapshot) can't be
+// on it, so their count is left alone. Announced entries also store their
+// content, so a later edit can be shown as a diff and past announcements can
+// be searched.
+export function recordEntries(
+  history: SeenEntry[],
+  current: EntrySnapshot[],
+  notifiedIds: Set<string>,
+  now: string,
+  capturedAt?: string // ISO time of the page, when it is a snapshot
+): SeenEntry[] {
+  const previous = new Map(history.map((e) => [e.id, e]));
+  const currentIds = new Set(current.map((e) => e.id));
+
+  let lastPresent = -1;
+  history.forEach((e, index) => {
+    if (currentIds.has(e.id)) lastPresent = index;
+  });
+
+  // Missing entries grouped by the nearest entry above them that is still on
+  // the page; "above" holds those above every entry on the page, "below"
+  // those of a history with no entry left on the page
+  const missingAfter = new Map<string, SeenEntry[]>();
+  const above: SeenEntry[] = [];
+  const below: SeenEntry[] = [];
+  let anchor: string | null = null;
+  history.forEach((entry, index) => {
+    if (currentIds.has(entry.id)) {
+      anchor = entry.id;
+      return;
+    }
+    const { missingChecks, ...rest } = entry;
+    const tracked =
+      capturedAt && entry.firstSeenAt > capturedAt
+        ? entry
+        : index < lastPresent
+        ? { ...entry, missingChecks: (missingChecks ?? 0) + 1 }
+        : missingChecks
+          ? rest
+          : entry;
+    if (anchor !== null) {
+      missingAfter.set(anchor, [...(missingAfter.get(anchor) ?? []), tracked]);
+    } else {
+      (lastPresent >= 0 ? above : below).push(tracked);
+    }
+  });
+
+  const merged: SeenEntry[] = [...above];
+  const added = new Set<string>();
+
+  for (const entry of current) {
+    if (added.has(entry.id)) continue;
+    added.add(entry.id);
+
+    const known = previous.get(entry.id);
+    const notifiedAt = known?.notifiedAt || (notifiedIds.has(entry.id) ? now : undefined);
+    merged.push({
+      id: entry.id,
+      title: entry.title,
+      ...(entry.date && { date: entry.date }),
+      hash: hashContent(entry.content),
+      firstSeenAt: known?.firstSeenAt || now,
+      ...(notifiedAt && { notifiedAt }),
+      ...(notifiedAt && { body: entry.content }),
+      ...(known?.watchMatches && { watchMatches: known.watchMatches }),
+      ...(known?.mutedAt && { mutedAt: known.mutedAt }),
+    });
+    merged.push(...(missingAfter.get(entry.id) ?? []));
+  }
+  merged.push(...below);
+
+  return merged.slice(0, HISTORY_LIMIT);
+}
+
+// Add the watched terms found in announced entries to their history,
+// keeping terms found earlier (e.g. before an edit)
+export function recordWatchMatches(
+  history: SeenEntry[],
+  matches: Map<string, string[]>
+): SeenEntry[] {
+  return history.map((e) => {
+    const found = matches.get(e.id);
+    return found ? { ...e, watchMatches: [...new Set([...(e.watchMatches ?? []), ...found])] } : e;
+  });
+}
+
+// Mark entries suppressed by a mute rule; they count as seen but have no
+// notifiedAt
+export function recordMuted(history: SeenEntry[], ids: Set<string>, now: string): SeenEntry[] {
+  return history.map((e) => (ids.has(e.id) && !e.mutedAt ? { ...e, mutedAt: now } : e));
+}
+
+// Entries missing from the page for at least `threshold` consecutive checks
+// that were not reported as retracted yet
+export function findRetractedEntries(history: SeenEntry[], threshold: number): SeenEntry[] {
+  return history.filter((e) => !e.retractedAt && (e.missingChecks ?? 0) >= threshold);
+}
+
+export interface EditedEntry {
+  previous: SeenEntry;
+  current: EntrySnapshot;
+}
+
+// Announced entries whose content changed since they were recorded. Entries
+// without a stored body (announced by an older version, or migrated from an
+// older state file) are skipped: there is nothing to diff.
+export function findEditedEntries(
+  history: SeenEntry[],
+  current: EntrySnapshot[]
+): EditedEntry[] {
+  const previous = new Map(history.map((e) => [e.id, e]));
+  return current.flatMap((entry) => {
+    const known = previous.get(entry.id);
+    if (!known?.notifiedAt || known.body === undefined) return [];
+    return known.hash === hashContent(entry.content) ? [] : [{ previous: known, current: entry }];
+  });
 }
 
 export function ensureDataDir(): void {
@@ -16,7 +203,7 @@ export function readStoredData(source: ReleaseSource): StoredData | null {
   const filePath = path.join(DATA_DIR, source.stateFile);
   try {
     const content = fs.readFileSync(filePath, "utf8").trim();
-    return JSON.parse(content) as StoredData;
+    return migrateStoredData(JSON.parse(content));
   } catch {
     return null; // First run or file doesn't exist
   }
@@ -0,0 +1,198 @@
+import { ReleaseSource, SourceRegistry } from "./config";
+import { StoredData } from "./hash-store";
+import { formatTime } from "./status";
+
+// Past announcements for the `history` command, from each source's state
+// file. Only entries still in the state history (see HISTORY_LIMIT) can be
+// listed.
+
+export type HistoryFormat = "text" | "markdown" | "json";
+
+export interface HistoryQuery {
+  sources: string[]; // Source ids; empty for all
+  since?: string; // ISO 8601, inclusive
+  until?: string; // ISO 8601, exclusive
+  search?: string; // Words that must all appear in the title or text
+}
+
+export interface HistoryArgs {
+  success: boolean;
+  query?: HistoryQuery;
+  format?: HistoryFormat;
+  error?: string;
+}
+
+export interface HistoryEntry {
+  sourceId: string;
+  sourceName: string;
+  id: string;
+  title: string;
+  date?: string; // Release date given by the source
+  announcedAt: string;
+  retractedAt?: string;
+  watchMatches?: string[];
+  body?: string; // Missing for entries announced before bodies were stored
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// "2026-01-15" or a full timestamp; a plain date used as the end of a range
+// includes that whole day
+function parseDate(value: string, endOfRange: boolean): string | null {
+  const time = Date.parse(DATE_ONLY.test(value) ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(time)) return null;
+  return new Date(endOfRange && DATE_ONLY.test(value) ? time + DAY_MS : time).toISOString();
+}
+
+// Arguments after "history": source ids, --since/--until <date>,
+// --search <text>, and --json or --markdown. Options take their value as the
+// next argument or after "=".
+export function parseHistoryArgs(args: string[], registry: SourceRegistry): HistoryArgs {
+  const query: HistoryQuery = { sources: [] };
+  let format: HistoryFormat = "text";
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].startsWith("--") ? args[i].split(/=(.*)/s) : [args[i]];
+    const value = () => inline ?? args[++i];
+
+    switch (flag) {
+      case "--json":
+        format = "json";
+        break;
+      case "--markdown":
+        format = "markdown";
+        break;
+      case "--since":
+      case "--until": {
+        const raw = value();
+        const date = raw === undefined ? null : parseDate(raw, flag === "--until");
+        if (!date) return { success: false, error: `${flag} needs a date like 2026-01-15` };
+        query[flag === "--since" ? "since" : "until"] = date;
+        break;
+      }
+      case "--search": {
+        const text = value();
+        if (!text?.trim()) return { success: false, error: "--search needs a text to look for" };
+        query.search = text.trim();
+        break;
+      }
+      default:
+        if (flag.startsWith("--")) return { success: false, error: `Unknown option: ${flag}` };
+        if (!Object.hasOwn(registry.sources, flag)) {
+          return { success: false, error: `Unknown source: ${flag}` };
+        }
+        query.sources.push(flag);
+    }
+  }
+
+  return { success: true, query, format };
+}
+
+function matchesSearch(entry: HistoryEntry, search: string): boolean {
+  const text = `${entry.title}\n${entry.body ?? ""}`.toLowerCase();
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => text.includes(word));
+}
+
+// Announced entries of the given sources that match the query, most recently
+// announced first. Muted entries were never announced and aren't listed.
+export function collectHistory(
+  sources: [ReleaseSource, StoredData | null][],
+  query: HistoryQuery
+): HistoryEntry[] {
+  const entries = sources
+    .filter(([source]) => query.sources.length === 0 || query.sources.includes(source.id))
+    .flatMap(([source, data]) =>
+      (data?.entries ?? []).flatMap((e): HistoryEntry[] =>
+        e.notifiedAt
+          ? [
+              {
+                sourceId: source.id,
+                sourceName: source.name,
+                id: e.id,
+                title: e.title,
+                ...(e.date && { date: e.date }),
+                announcedAt: e.notifiedAt,
+                ...(e.retractedAt && { retractedAt: e.retractedAt }),
+                ...(e.watchMatches && { watchMatches: e.watchMatches }),
+                ...(e.body !== undefined && { body: e.body }),
+              },
+            ]
+          : []
+      )
+    )
+    .filter(
+      (e) =>
+        (!query.since || e.announcedAt >= query.since) &&
+        (!query.until || e.announcedAt < query.until) &&
+        (!query.search || matchesSearch(e, query.search))
+    );
+
+  // Stable, so entries announced together keep their page order
+  return entries.sort((a, b) => b.announcedAt.localeCompare(a.announcedAt));
+}
+
+function titleWithFlags(entry: HistoryEntry): string {
+  return [
+    entry.title,
+    entry.date && entry.date !== entry.title && `(${entry.date})`,
+    entry.retractedAt && "[retracted]",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// First line of the text mentioning the search, to show why an entry matched
+function matchingLine(entry: HistoryEntry, search: string): string | undefined {
+  const words = search.toLowerCase().split(/\s+/);
+  return entry.body
+    ?.split("\n")
+    .map((line) => line.trim())
+    .find((line) => line && words.some((word) => line.toLowerCase().includes(word)));
+}
+
+// One line per entry (times in UTC); with a search, the matching line of text
+// below it
+export function formatHistoryText(entries: HistoryEntry[], search?: string): string {
+  if (entries.length === 0) return "No announcements found";
+  const width = Math.max(...entries.map((e) => e.sourceId.length));
+  return entries
+    .flatMap((e) => {
+      const line = search && matchingLine(e, search);
+      return [
+        `${formatTime(e.announcedAt)}  ${e.sourceId.padEnd(width)}  ${titleWithFlags(e)}`,
+        ...(line ? [`    ${line}`] : []),
+      ];
+    })
+    .join("\n");
+}
+
+// Headings inside entry text become level 4, below the entry's own heading
+function nestHeadings(text: string): string {
+  return text.replace(/^#{1,3}(?=\s)/gm, "####");
+}
+
+// A document grouped by source, in the order sources first appear
+export function formatHistoryMarkdown(entries: HistoryEntry[]): string {
+  if (entries.length === 0) return "No announcements found.";
+  const bySource = new Map<string, HistoryEntry[]>();
+  for (const e of entries) bySource.set(e.sourceName, [...(bySource.get(e.sourceName) ?? []), e]);
+
+  return [...bySource]
+    .map(([name, items]) =>
+      [
+        `## ${name}`,
+        ...items.map((e) =>
+          [
+            `### ${titleWithFlags(e)}`,
+            `_Announced ${formatTime(e.announcedAt)} UTC_`,
+            ...(e.body ? [nestHeadings(e.body)] : []),
+          ].join("\n\n")
+        ),
+      ].join("\n\n")
+    )
+    .join("\n\n");
+}
@@ -0,0 +1,33 @@
+import * as log from "./logger";
+
+export interface PostResult {
+  success: boolean;
+  error?: string;
+}
+
+// POST a JSON body to a webhook, logging the request and response
+export async function postJson(url: string, body: string): Promise<PostResult> {
+  log.info(`  POST ${url}`);
+  log.info(`  Payload: ${body}`);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    });
+
+    if (response.ok) {
+      log.info(`  Response: ${response.status} OK`);
+      return { success: true };
+    }
+
+    const text = await response.text();
+    log.error(`  Response: ${response.status} ${text}`);
+    return { success: false, error: `${response.status}: ${text}` };
+  } catch (err) {
+    const errorMsg = err instanceof Error ? err.message : String(err);
+    log.error(`  Request failed: ${errorMsg}`);
+    return { success: false, error: errorMsg };
+  }
+}
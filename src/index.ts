@@ -1,29 +1,61 @@
 import "dotenv/config";
-import { SOURCES, SourceId, SLACK_WEBHOOK_URL } from "./config";
-import { checkSource } from "./changelog";
-import { sendSlackNotification } from "./slack";
+import { DEFAULT_DIGEST_PERIOD, DigestPeriod, ReleaseSource, SourceRegistry } from "./config";
+import { Change, checkSource, getFetchStrategies } from "./changelog";
+import {
+  buildDigest,
+  collectForDigest,
+  DIGEST_SOURCE,
+  isDigestDue,
+  readDigests,
+  writeDigests,
+} from "./digest";
+import { createNotifier, Notifier } from "./notifier";
+import {
+  deliverOutbox,
+  OutboxItem,
+  queueNotifications,
+  readOutbox,
+  writeOutbox,
+} from "./outbox";
+import { routeChange } from "./routing";
+import { loadSources } from "./sources";
+import { formatStatusTable, sourceStatus } from "./status";
+import {
+  collectHistory,
+  formatHistoryMarkdown,
+  formatHistoryText,
+  parseHistoryArgs,
+} from "./history";
+import { readStoredData } from "./hash-store";
 import * as log from "./logger";
 
-const VALID_TARGETS = ["all", "claude-code", "claude-blog", "gemini", "chatgpt"] as const;
-type Target = (typeof VALID_TARGETS)[number];
+function printUsage(registry?: SourceRegistry): void {
+  const sources = registry ? Object.values(registry.sources) : [];
+  const width = Math.max(12, ...sources.map((s) => s.id.length + 2));
+  const targetLines = [
+    `  ${"all".padEnd(width)}Check all sources (default)`,
+    ...sources.map((s) => `  ${s.id.padEnd(width)}Check ${s.name} only`),
+  ].join("\n");
 
-function printUsage(): void {
   console.log(`
-Changelog Watcher - Monitor AI changelogs and notify Slack
+Changelog Watcher - Monitor AI changelogs and notify Slack, Discord, Teams, webhooks or email
 
 Usage:
   npx tsx src/index.ts [target] [options]
+  npx tsx src/index.ts status [--json]
+  npx tsx src/index.ts history [source...] [--since date] [--until date]
+                               [--search text] [--json | --markdown]
 
-Targets:
-  all           Check all sources (default)
-  claude-code   Check Claude Code changelog only
-  claude-blog   Check Claude Blog only
-  gemini        Check Gemini changelog only
-  chatgpt       Check ChatGPT changelog only
+Targets (from sources.json, or the file named by SOURCES_FILE):
+${targetLines}
 
 Options:
   --dry-run   Check for changes without sending notifications
   --test      Send notifications to the test channel instead of live
+  --digest    Collect changes into the daily digest of every target instead of
+              alerting (targets with a "digest" setting always do)
+  --json      With status or history: print JSON
+  --markdown  With history: print a markdown document
   --help      Show this help message
 
 Examples:
@@ -33,24 +65,77 @@ Examples:
   npx tsx src/index.ts --dry-run        # Dry run all sources
   npx tsx src/index.ts gemini --dry-run
   npx tsx src/index.ts --test           # Send to test channel
+  npx tsx src/index.ts --digest         # One summary per day instead of alerts
+  npx tsx src/index.ts status           # Last check, change and error per source
+  npx tsx src/index.ts history claude-code --search hooks --since 2026-01-01
 `);
 }
 
+// Stored state and health of every source; reads state files only
+function printStatus(registry: SourceRegistry, json: boolean): void {
+  const rows = Object.values(registry.sources).map((s) => sourceStatus(s, readStoredData(s)));
+  console.log(json ? JSON.stringify(rows, null, 2) : formatStatusTable(rows));
+}
+
+// Past announcements matching the arguments; false on invalid arguments
+function printHistory(registry: SourceRegistry, args: string[]): boolean {
+  const parsed = parseHistoryArgs(args, registry);
+  if (!parsed.success) {
+    log.error(parsed.error!);
+    return false;
+  }
+
+  const query = parsed.query!;
+  const entries = collectHistory(
+    Object.values(registry.sources).map((s) => [s, readStoredData(s)]),
+    query
+  );
+  switch (parsed.format) {
+    case "json":
+      console.log(JSON.stringify(entries, null, 2));
+      break;
+    case "markdown":
+      console.log(formatHistoryMarkdown(entries));
+      break;
+    default:
+      console.log(formatHistoryText(entries, query.search));
+  }
+  return true;
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
 
+  let registry: SourceRegistry;
+  try {
+    registry = loadSources();
+  } catch (err) {
+    log.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
   if (args.includes("--help") || args.includes("-h")) {
-    printUsage();
+    printUsage(registry);
     process.exit(0);
   }
 
+  if (args[0] === "status") {
+    printStatus(registry, args.includes("--json"));
+    process.exit(0);
+  }
+
+  if (args[0] === "history") {
+    process.exit(printHistory(registry, args.slice(1)) ? 0 : 1);
+  }
+
   const dryRun = args.includes("--dry-run");
   const testMode = args.includes("--test");
-  const target = (args.find((a) => !a.startsWith("--")) || "all") as Target;
+  const digestMode = args.includes("--digest");
+  const target = args.find((a) => !a.startsWith("--")) || "all";
 
-  if (!VALID_TARGETS.includes(target)) {
+  if (target !== "all" && !Object.hasOwn(registry.sources, target)) {
     log.error(`Invalid target: ${target}`);
-    printUsage();
+    printUsage(registry);
     process.exit(1);
   }
 
@@ -63,20 +148,80 @@ async function main(): Promise<void> {
   if (testMode) {
     log.warn("TEST MODE - Notifications will be sent to the test channel");
   }
+  if (digestMode && !testMode) {
+    log.info("DIGEST MODE - Changes will be collected into digests");
+  }
   console.log();
 
-  const sourcesToCheck =
+  const notifiers: Record<string, Notifier> = Object.fromEntries(
+    Object.entries(registry.targets).map(([name, t]) => [name, createNotifier(t)])
+  );
+
+  // Targets that get a summary per period instead of an alert per change
+  const digestPeriod = (name: string): DigestPeriod | undefined =>
+    registry.targets[name]?.digest ?? (digestMode ? DEFAULT_DIGEST_PERIOD : undefined);
+
+  const sourcesToCheck: ReleaseSource[] =
     target === "all"
-      ? Object.values(SOURCES)
-      : [SOURCES[target as SourceId]];
+      ? Object.values(registry.sources)
+      : [registry.sources[target]];
 
   let changesDetected = 0;
   let errorsEncountered = 0;
+  let entriesSuppressed = 0;
+
+  // Notifications that failed on earlier runs. Test runs leave them alone.
+  const queued = testMode ? [] : readOutbox();
+  if (queued.length > 0) {
+    if (dryRun) {
+      log.warn(`[DRY RUN] ${queued.length} queued notification(s) waiting for retry`);
+    } else {
+      log.info(`Retrying queued notifications (${queued.length} queued)...`);
+      const retried = await deliverOutbox(registry, notifiers);
+      errorsEncountered += retried.failed;
+    }
+    console.log();
+  }
+
+  // Queue the notifications for a source's changes (or collect them for
+  // digests) and return the ids of the queued items. Runs before the state
+  // file records the changes as announced, so a crash in between can't lose
+  // them; failed ones are retried next run.
+  const queueChanges = (source: ReleaseSource, changes: Change[]): string[] => {
+    const items: OutboxItem[] = [];
+    const storedDigests = readDigests();
+    let digests = storedDigests;
+    for (const change of changes) {
+      const targetNames = routeChange(registry, source, change);
+      for (const name of targetNames.filter((t) => digestPeriod(t))) {
+        digests = collectForDigest(digests, name, source.id, change);
+        log.info(`  Collected for the ${name} digest`);
+      }
+      items.push(
+        ...queueNotifications(source.id, change, targetNames.filter((t) => !digestPeriod(t)))
+      );
+    }
+    if (digests !== storedDigests) writeDigests(digests);
+    writeOutbox([...readOutbox(), ...items]);
+    return items.map((i) => i.id);
+  };
 
   for (const source of sourcesToCheck) {
     log.info(`Checking ${source.name}...`);
 
-    const result = await checkSource(source, { skipSave: testMode });
+    let queuedIds: string[] = [];
+    const result = await checkSource(source, {
+      skipSave: testMode,
+      dryRun,
+      watchlist: registry.watchlist,
+      mute: registry.mute,
+      ...(!testMode &&
+        !dryRun && {
+          beforeSave: (changes: Change[]) => {
+            queuedIds = queueChanges(source, changes);
+          },
+        }),
+    });
 
     if (result.error) {
       if (result.isTransient) {
@@ -89,36 +234,95 @@ async function main(): Promise<void> {
       continue;
     }
 
+    if (result.suppressed) {
+      entriesSuppressed += result.suppressed;
+      log.info(`  Muted ${result.suppressed} entr${result.suppressed === 1 ? "y" : "ies"}`);
+    }
+
     if (!result.hasChanged) {
       log.info(`  No changes detected`);
       continue;
     }
 
     changesDetected++;
-    log.success(`  Change detected! Version: ${result.version}`);
+    const changes = result.changes ?? [];
+    for (const change of changes) {
+      log.success(
+        change.kind === "new-entry"
+          ? `  Change detected! Version: ${change.version}` +
+              (result.strategy ? ` (via ${result.strategy})` : "")
+          : `  ${change.version}`
+      );
+      if (change.watchMatches) {
+        log.warn(`  Priority: mentions ${change.watchMatches.join(", ")}`);
+      }
+    }
 
     if (dryRun) {
-      log.warn(`  [DRY RUN] Would send notification`);
+      log.warn(`  [DRY RUN] Would send ${changes.length} notification(s)`);
       continue;
     }
 
-    const slackResult = await sendSlackNotification(SLACK_WEBHOOK_URL, {
-      source: source.name,
-      version: result.version!,
-      changes: result.formattedChanges!,
-      test: testMode ? "yes" : "no",
-    });
+    if (testMode) {
+      for (const change of changes) {
+        for (const targetName of routeChange(registry, source, change)) {
+          const outcome = await notifiers[targetName].send({
+            source,
+            change,
+            test: true,
+          });
 
-    if (slackResult.success) {
-      log.success(`  Notification sent to Slack`);
-    } else {
-      log.error(`  Failed to notify: ${slackResult.error}`);
-      errorsEncountered++;
+          if (outcome.success) {
+            log.success(`  Notification sent to ${targetName}`);
+          } else {
+            log.error(`  Failed to notify ${targetName}: ${outcome.error}`);
+            errorsEncountered++;
+          }
+        }
+      }
+      continue;
+    }
+
+    const delivery = await deliverOutbox(registry, notifiers, { ids: queuedIds });
+    errorsEncountered += delivery.failed;
+  }
+
+  // Send the digests whose period is over
+  if (!testMode && !dryRun) {
+    const now = new Date();
+    const digests = readDigests();
+    const periodOf = (name: string) => registry.targets[name]?.digest ?? DEFAULT_DIGEST_PERIOD;
+    const due = Object.keys(digests).filter((name) =>
+      isDigestDue(digests[name], periodOf(name), now)
+    );
+
+    if (due.length > 0) {
+      console.log();
+      log.info("Sending digests...");
+      const items = due.flatMap((name) =>
+        queueNotifications(
+          DIGEST_SOURCE.id,
+          buildDigest(registry, digests[name], periodOf(name)),
+          [name],
+          now
+        )
+      );
+      writeOutbox([...readOutbox(), ...items]);
+      writeDigests(
+        Object.fromEntries(Object.entries(digests).filter(([name]) => !due.includes(name)))
+      );
+      const delivery = await deliverOutbox(registry, notifiers, {
+        now,
+        ids: items.map((i) => i.id),
+      });
+      errorsEncountered += delivery.failed;
     }
   }
 
   // Trigger Wayback Machine to save fresh snapshots for wayback sources
-  const waybackSources = sourcesToCheck.filter((s) => s.parserType === "wayback");
+  const waybackSources = sourcesToCheck.filter(
+    (s) => s.parserType === "wayback" && getFetchStrategies(s).includes("wayback")
+  );
   if (waybackSources.length > 0) {
     console.log();
     log.info("Triggering Wayback Machine saves...");
@@ -139,7 +343,7 @@ async function main(): Promise<void> {
   console.log();
   console.log("=".repeat(50));
   log.info(
-    `Done. Checked: ${sourcesToCheck.length}, Changed: ${changesDetected}, Errors: ${errorsEncountered}`
+    `Done. Checked: ${sourcesToCheck.length}, Changed: ${changesDetected}, Muted: ${entriesSuppressed}, Errors: ${errorsEncountered}`
   );
 
   if (errorsEncountered > 0) {
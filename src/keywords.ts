@@ -0,0 +1,16 @@
+// Keyword matching shared by routing rules and watchlists: a keyword matches
+// case-insensitively at the start of a word, and the match runs to the end of
+// that word ("deprecat" matches "Deprecated", "API" matches "APIs" but not
+// "rapid"). Keywords are plain text.
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function keywordPattern(keyword: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword.trim())}[\\p{L}\\p{N}]*`, "giu");
+}
+
+export function mentionsKeyword(text: string, keywords: string[]): boolean {
+  return keywords.some((keyword) => keywordPattern(keyword).test(text));
+}
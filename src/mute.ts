@@ -0,0 +1,33 @@
+import { MuteRule, ReleaseSource } from "./config";
+import { ReleaseEntry } from "./changelog";
+
+// Like routing rules: a rule mutes an entry when every condition it sets
+// matches. `sources` only narrows a rule down; the other conditions need at
+// least one to be set (see validateMuteRule).
+export function matchesMuteRule(rule: MuteRule, source: ReleaseSource, entry: ReleaseEntry): boolean {
+  if (rule.sources && !rule.sources.includes(source.id)) return false;
+  if (rule.pattern && !new RegExp(rule.pattern, "i").test(`${entry.title}\n${entry.body ?? ""}`)) {
+    return false;
+  }
+  if (rule.minBodyLength !== undefined && (entry.body ?? "").trim().length >= rule.minBodyLength) {
+    return false;
+  }
+  // Bullets that fit no category count as "Other", so an entry is muted only
+  // when all of its bullets are; entries without categories never are
+  const categories = [...(entry.categories ?? []), ...(entry.uncategorized ? ["Other"] : [])];
+  if (
+    rule.categories &&
+    !(categories.length && categories.every((c) => includesIgnoringCase(rule.categories!, c)))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function includesIgnoringCase(list: string[], value: string): boolean {
+  return list.some((item) => item.toLowerCase() === value.toLowerCase());
+}
+
+export function isMuted(rules: MuteRule[], source: ReleaseSource, entry: ReleaseEntry): boolean {
+  return rules.some((rule) => matchesMuteRule(rule, source, entry));
+}
@@ -0,0 +1,136 @@
+import { Change } from "./changelog";
+import { DEFAULT_SMTP_PORT, NotificationTarget, ReleaseSource } from "./config";
+import { sendDiscordNotification } from "./discord";
+import { sendEmailNotification } from "./email";
+import { sendSlackNotification, SlackPayload, SlackResult } from "./slack";
+import { sendTeamsNotification } from "./teams";
+import { renderTemplate, TemplateView } from "./template";
+import { sendWebhookNotification } from "./webhook";
+
+// What a notification needs to know about where a change came from: a
+// source, or DIGEST_SOURCE for a digest
+export type NotificationSource = Pick<ReleaseSource, "id" | "name"> & {
+  releasePageUrl?: string;
+};
+
+export interface Notification {
+  source: NotificationSource;
+  change: Change;
+  test: boolean;
+  partsSent?: number; // Messages of a split notification an earlier attempt posted
+}
+
+export type NotifyResult = SlackResult;
+
+export interface Notifier {
+  send(notification: Notification): Promise<NotifyResult>;
+}
+
+// Data available to body and webhook templates
+export function notificationView({ source, change, test }: Notification): TemplateView {
+  const entries = change.entries ?? [];
+  return {
+    source: source.name,
+    sourceId: source.id,
+    version: change.version,
+    changes: change.formattedChanges,
+    kind: change.kind,
+    link: source.releasePageUrl ?? "",
+    test: test ? "yes" : "no",
+    isTest: test,
+    isNewEntry: change.kind === "new-entry",
+    isUpdate: change.kind === "entry-updated",
+    isRetraction: change.kind === "entry-retracted",
+    isDigest: change.kind === "digest",
+    entries: entries.map((entry, i) => ({ ...entry, first: i === 0, last: i === entries.length - 1 })),
+    entryCount: entries.length,
+    versionRange:
+      entries.length > 0 ? { from: entries[0].id, to: entries[entries.length - 1].id } : undefined,
+    diff: change.diff,
+    isPriority: Boolean(change.watchMatches),
+    watchMatches: change.watchMatches ?? [],
+  };
+}
+
+function toPayload(n: Notification, bodyTemplate?: string): SlackPayload {
+  return {
+    source: n.source.name,
+    version: n.change.version,
+    changes: bodyTemplate
+      ? renderTemplate(bodyTemplate, notificationView(n)).trim()
+      : n.change.formattedChanges,
+    test: n.test ? "yes" : "no",
+  };
+}
+
+// Notifier for a target from sources.json. Webhook URLs and SMTP credentials
+// are read from the environment on each send, so a missing variable fails
+// that delivery only.
+export function createNotifier(target: NotificationTarget): Notifier {
+  const webhookUrl = () => process.env[target.webhookUrlEnv!] || "";
+  const payload = (n: Notification) => toPayload(n, target.bodyTemplate);
+  // Only changes that mention a watched term escalate
+  const mention = (n: Notification) => (n.change.watchMatches ? target.priorityMention : undefined);
+  // A body template decides the layout, so split it on its own "---" lines
+  const splitOptions = (n: Notification) => ({
+    sections: target.bodyTemplate ? undefined : n.change.sections,
+    maxLength: target.maxMessageLength,
+    collapseAfter: target.collapseAfter,
+    link: n.source.releasePageUrl,
+    mention: mention(n),
+    skipParts: n.partsSent,
+  });
+
+  switch (target.type ?? "slack") {
+    case "slack":
+      return {
+        send: (n) =>
+          sendSlackNotification(webhookUrl(), payload(n), {
+            format: target.format,
+            ...splitOptions(n),
+          }),
+      };
+
+    case "discord":
+      return {
+        send: (n) => sendDiscordNotification(webhookUrl(), payload(n), splitOptions(n)),
+      };
+
+    case "teams":
+      return {
+        send: (n) => sendTeamsNotification(webhookUrl(), payload(n), splitOptions(n)),
+      };
+
+    case "webhook":
+      return {
+        send: (n) =>
+          sendWebhookNotification(webhookUrl(), target.template!, notificationView(n)),
+      };
+
+    case "email":
+      return {
+        send: (n) =>
+          sendEmailNotification(
+            {
+              host: target.smtpHost!,
+              port: target.smtpPort ?? DEFAULT_SMTP_PORT,
+              security: target.smtpSecurity ?? "starttls",
+              ...(target.smtpUserEnv && {
+                username: process.env[target.smtpUserEnv] || "",
+                password: process.env[target.smtpPasswordEnv ?? ""] || "",
+              }),
+            },
+            payload(n),
+            {
+              from: target.from!,
+              to:
+                target.toBySource && Object.hasOwn(target.toBySource, n.source.id)
+                  ? target.toBySource[n.source.id]
+                  : target.to ?? [],
+              link: n.source.releasePageUrl,
+              mention: mention(n),
+            }
+          ),
+      };
+  }
+}
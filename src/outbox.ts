@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { DATA_DIR, OUTBOX_FILE, SourceId, SourceRegistry } from "./config";
+import { Change } from "./changelog";
+import { DIGEST_SOURCE } from "./digest";
+import { ensureDataDir } from "./hash-store";
+import { Notifier } from "./notifier";
+import * as log from "./logger";
+
+// Wait after a failed attempt: doubles from 15 minutes up to a day. After
+// OUTBOX_MAX_ATTEMPTS failures the notification is dropped. Retries happen on
+// the next run, so with the daily schedule that is one attempt a day (about
+// ten days); with frequent runs, about three days.
+export const OUTBOX_RETRY_BASE_MS = 15 * 60 * 1000;
+export const OUTBOX_RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+export const OUTBOX_MAX_ATTEMPTS = 10;
+
+export interface OutboxItem {
+  id: string;
+  sourceId: SourceId; // DIGEST_SOURCE.id for digests
+  target: string;
+  change: Change;
+  createdAt: string; // ISO 8601
+  attempts: number; // Failed attempts so far
+  nextAttemptAt: string; // ISO 8601
+  lastError?: string;
+  partsSent?: number; // Messages of a split notification already delivered
+}
+
+export interface DeliveryResult {
+  delivered: number;
+  failed: number; // Attempts that failed, including dropped notifications
+}
+
+export function readOutbox(): OutboxItem[] {
+  try {
+    const items = JSON.parse(fs.readFileSync(path.join(DATA_DIR, OUTBOX_FILE), "utf8"));
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return []; // Nothing queued yet
+  }
+}
+
+export function writeOutbox(items: OutboxItem[]): void {
+  ensureDataDir();
+  fs.writeFileSync(path.join(DATA_DIR, OUTBOX_FILE), JSON.stringify(items));
+}
+
+export function retryDelay(attempts: number): number {
+  return Math.min(OUTBOX_RETRY_BASE_MS * 2 ** (attempts - 1), OUTBOX_RETRY_MAX_MS);
+}
+
+// One item per target, due immediately
+export function queueNotifications(
+  sourceId: SourceId,
+  change: Change,
+  targets: string[],
+  now: Date = new Date()
+): OutboxItem[] {
+  return targets.map((target) => ({
+    id: crypto.randomUUID(),
+    sourceId,
+    target,
+    change,
+    createdAt: now.toISOString(),
+    attempts: 0,
+    nextAttemptAt: now.toISOString(),
+  }));
+}
+
+// Whether `later` is about an entry `earlier` also notifies the same target of
+function followsUp(earlier: OutboxItem, later: OutboxItem): boolean {
+  if (earlier.target !== later.target || earlier.sourceId !== later.sourceId) return false;
+  const ids = new Set((earlier.change.entries ?? []).map((e) => e.id));
+  return (later.change.entries ?? []).some((e) => ids.has(e.id));
+}
+
+// Send the due items (or only those in `ids`) in order. Delivered items are
+// removed and failed ones rescheduled, remembering how many messages of a
+// split notification were posted; the outbox is saved after each attempt
+// so a crash never resends what was already delivered. An item about an entry
+// that an earlier, still queued item covers (an edit of a version whose
+// announcement failed) waits for that item, so they arrive in order.
+export async function deliverOutbox(
+  registry: SourceRegistry,
+  notifiers: Record<string, Notifier>,
+  options: { now?: Date; ids?: string[] } = {}
+): Promise<DeliveryResult> {
+  const now = options.now ?? new Date();
+  const result: DeliveryResult = { delivered: 0, failed: 0 };
+  let items = readOutbox();
+
+  const due = items.filter((item) =>
+    options.ids ? options.ids.includes(item.id) : new Date(item.nextAttemptAt) <= now
+  );
+
+  for (const item of due) {
+    const source =
+      item.change.kind === "digest" ? DIGEST_SOURCE : registry.sources[item.sourceId];
+    const notifier = notifiers[item.target];
+    const label = `${item.target} (${item.change.version})`;
+    let update: OutboxItem | null = null;
+
+    const position = items.findIndex((i) => i.id === item.id);
+    const pending = items.slice(0, position).find((earlier) => followsUp(earlier, item));
+    if (pending) {
+      log.warn(`  Holding ${label} until ${pending.change.version} is delivered`);
+      continue;
+    }
+
+    if (!source || !notifier) {
+      log.warn(`  Dropping queued notification for ${label}: source or target no longer configured`);
+    } else {
+      const outcome = await notifier.send({
+        source,
+        change: item.change,
+        test: false,
+        ...(item.partsSent && { partsSent: item.partsSent }),
+      });
+      const attempts = item.attempts + 1;
+
+      if (outcome.success) {
+        log.success(`  Notification sent to ${item.target}`);
+        result.delivered++;
+      } else if (attempts >= OUTBOX_MAX_ATTEMPTS) {
+        log.error(`  Failed to notify ${item.target}: ${outcome.error} (gave up after ${attempts} attempts)`);
+        result.failed++;
+      } else {
+        const next = new Date(now.getTime() + retryDelay(attempts));
+        log.error(`  Failed to notify ${item.target}: ${outcome.error} (retry after ${next.toISOString()})`);
+        result.failed++;
+        update = {
+          ...item,
+          attempts,
+          nextAttemptAt: next.toISOString(),
+          lastError: outcome.error,
+          // A retry resumes after the messages that went through
+          ...(outcome.partsSent && { partsSent: outcome.partsSent }),
+        };
+      }
+    }
+
+    items = items.flatMap((i) => (i.id !== item.id ? [i] : update ? [update] : []));
+    writeOutbox(items);
+  }
+
+  return result;
+}
@@ -0,0 +1,54 @@
+import { ReleaseSource, RoutingRule, SourceRegistry } from "./config";
+import { Change } from "./changelog";
+import { mentionsKeyword } from "./keywords";
+
+// Keywords are looked for in the text of a change, not in the URLs of its
+// links: lines that are only a URL and the targets of markdown links go
+function withoutLinks(text: string): string {
+  return text
+    .split("\n")
+    .filter((line) => !/^https?:\/\/\S+$/.test(line.trim()))
+    .join("\n")
+    .replace(/\]\([^)]*\)/g, "]");
+}
+
+export function matchesRule(rule: RoutingRule, source: ReleaseSource, change: Change): boolean {
+  if (rule.sources && !rule.sources.includes(source.id)) return false;
+  if (rule.kinds && !rule.kinds.includes(change.kind)) return false;
+  if (
+    rule.keywords &&
+    !mentionsKeyword(`${change.version}\n${withoutLinks(change.formattedChanges)}`, rule.keywords)
+  ) {
+    return false;
+  }
+  if (rule.priority && !change.watchMatches) return false;
+  return true;
+}
+
+// Rules that only pick sources (or nothing) say where a source's changes go;
+// rules with kinds, keywords or priority send some changes to more targets
+function isConditional(rule: RoutingRule): boolean {
+  return Boolean(rule.kinds || rule.keywords || rule.priority);
+}
+
+// Target names a change goes to: the source's default targets (its `notify`
+// targets plus those of matching source rules, or all targets when there are
+// none), then those of every matching conditional rule, in that order and
+// without duplicates.
+export function routeChange(
+  registry: SourceRegistry,
+  source: ReleaseSource,
+  change: Change
+): string[] {
+  const matching = registry.routes.filter((rule) => matchesRule(rule, source, change));
+  const defaults = [
+    ...(source.notify ?? []),
+    ...matching.filter((rule) => !isConditional(rule)).flatMap((rule) => rule.targets),
+  ];
+  return [
+    ...new Set([
+      ...(defaults.length > 0 ? defaults : Object.keys(registry.targets)),
+      ...matching.filter(isConditional).flatMap((rule) => rule.targets),
+    ]),
+  ];
+}
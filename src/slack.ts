@@ -1,5 +1,8 @@
-import * as log from "./logger";
+import { DEFAULT_MAX_MESSAGE_LENGTH, SlackFormat } from "./config";
+import { truncate } from "./format";
+import { postJson } from "./http";
 
+// Workflow Builder trigger payload; each field maps to a workflow variable
 export interface SlackPayload {
   source: string;
   version: string;
@@ -10,38 +13,308 @@ export interface SlackPayload {
 export interface SlackResult {
   success: boolean;
   error?: string;
+  partsSent?: number; // Messages of a split notification posted before the failure
 }
 
+export interface SlackOptions {
+  format?: SlackFormat; // Default "workflow"
+  sections?: string[]; // One per entry; default: changes split on "---"
+  maxLength?: number; // Characters per message; default DEFAULT_MAX_MESSAGE_LENGTH
+  collapseAfter?: number; // Send a summary instead of more messages than this
+  link?: string; // Where the full change set can be read (used by the summary)
+  mention?: string; // Sent with the first message, e.g. "<!here>"
+  skipParts?: number; // Messages already posted by an earlier attempt
+}
+
+// One message of a (possibly split) notification
+export interface SlackMessagePart {
+  payload: SlackPayload;
+  sections: string[];
+}
+
+// Block Kit limits (https://api.slack.com/reference/block-kit/blocks)
+const HEADER_TEXT_LIMIT = 150;
+const SECTION_TEXT_LIMIT = 3000;
+
+export interface SlackBlock {
+  type: "header" | "section" | "context" | "divider";
+  text?: { type: "plain_text" | "mrkdwn"; text: string; emoji?: boolean };
+  elements?: { type: "mrkdwn"; text: string }[];
+}
+
+export interface SlackBlocksMessage {
+  text: string; // Fallback for notifications and clients without blocks
+  blocks: SlackBlock[];
+}
+
+const BARE_URL = /^https?:\/\/\S+$/;
+
+// Slack allows 50 blocks per message. Header, mention and context take up to
+// three; entries get the rest (their sections, and a divider between them).
+const MAX_BLOCKS = 50;
+const MAX_ENTRY_BLOCKS = MAX_BLOCKS - 3;
+
+// Entry headings listed in a collapsed summary
+const SUMMARY_ENTRY_LIMIT = 20;
+
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Convert the markdown found in changelogs to Slack mrkdwn: headings and
+// **bold** become *bold*, *italic* becomes _italic_, [text](url) becomes
+// <url|text>, list bullets become "•". Code blocks are left alone.
+export function toMrkdwn(markdown: string): string {
+  return markdown
+    .split(/(```[\s\S]*?```)/)
+    .map((part, i) => (i % 2 === 1 ? part : convertMarkdownText(part)))
+    .join("");
+}
+
+function convertMarkdownText(text: string): string {
+  const BOLD = "\u0000";
+  return escapeMrkdwn(text)
+    .replace(/^#{1,6}\s+(.+?)\s*#*$/gm, `${BOLD}$1${BOLD}`)
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `${BOLD}${a ?? b}${BOLD}`)
+    .replace(/(^|[^*\w])\*(?!\s)([^*\n]+?)\*(?!\w)/g, "$1_$2_")
+    .replace(/~~(.+?)~~/g, "~$1~")
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, "<$2|$1>")
+    .replace(/^(\s*)[-*+]\s+/gm, "$1• ")
+    .replace(new RegExp(BOLD, "g"), "*");
+}
+
+// Split text into chunks of at most `limit` characters at line boundaries
+function chunkText(text: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    for (let start = 0; start < Math.max(line.length, 1); start += limit) {
+      const piece = line.slice(start, start + limit);
+      if (current && current.length + 1 + piece.length > limit) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current = current ? `${current}\n${piece}` : piece;
+      }
+    }
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks;
+}
+
+// Section texts of an entry: its mrkdwn without the links that stand on their
+// own line (those go to the context block), cut to the section text limit
+function entrySectionTexts(entry: string): string[] {
+  const text = entry
+    .split("\n")
+    .filter((line) => !BARE_URL.test(line.trim()))
+    .join("\n")
+    .trim();
+  return text ? chunkText(toMrkdwn(text), SECTION_TEXT_LIMIT) : [];
+}
+
+// Blocks that entries take in a message, dividers included
+function entryBlockCount(entries: string[]): number {
+  const counts = entries.map((e) => entrySectionTexts(e).length);
+  return counts.reduce((sum, n) => sum + n, 0) + Math.max(counts.filter((n) => n > 0).length - 1, 0);
+}
+
+// Cut an entry that needs more blocks than a message has room for, at line
+// boundaries. Each piece takes the most lines that fit, found by bisection.
+function fitEntryBlocks(entry: string): string[] {
+  if (entryBlockCount([entry]) <= MAX_ENTRY_BLOCKS) return [entry];
+  const lines = entry.split("\n");
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < lines.length) {
+    let low = start + 1; // A piece has at least one line
+    let high = lines.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (entryBlockCount([lines.slice(start, mid).join("\n")]) <= MAX_ENTRY_BLOCKS) low = mid;
+      else high = mid - 1;
+    }
+    const piece = lines.slice(start, low).join("\n");
+    if (piece.trim()) pieces.push(piece);
+    start = low;
+  }
+  return pieces;
+}
+
+// Block Kit layout: header with source and version, the mention if any, a
+// section per entry (long entries span several sections), and a context
+// block with the links that stood on their own line
+export function buildSlackBlocks(
+  payload: SlackPayload,
+  sections?: string[],
+  mention?: string
+): SlackBlocksMessage {
+  const entryTexts = sections ?? splitSections(payload.changes);
+  const links = [
+    ...new Set(
+      payload.changes
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => BARE_URL.test(line))
+    ),
+  ];
+
+  const blocks: SlackBlock[] = [
+    {
+      type: "header",
+      text: {
+        type: "plain_text",
+        text: truncate(`${payload.source} ${payload.version}`, HEADER_TEXT_LIMIT),
+        emoji: true,
+      },
+    },
+  ];
+  // Not escaped, so "<!here>" and "<@U123>" notify
+  if (mention) blocks.push({ type: "section", text: { type: "mrkdwn", text: mention } });
+
+  entryTexts.forEach((entry, index) => {
+    const texts = entrySectionTexts(entry);
+    if (texts.length === 0) return;
+
+    if (index > 0) blocks.push({ type: "divider" });
+    for (const text of texts) {
+      blocks.push({ type: "section", text: { type: "mrkdwn", text } });
+    }
+  });
+
+  const context = [
+    ...links.map((url) => `<${url}>`),
+    ...(payload.test === "yes" ? ["_Test notification_"] : []),
+  ];
+  if (context.length > 0) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: context.join("  •  ") }],
+    });
+  }
+
+  return {
+    text: [mention, `${payload.source}: ${payload.version}`].filter(Boolean).join(" "),
+    blocks,
+  };
+}
+
+function splitSections(changes: string): string[] {
+  return changes.split(/\n\s*---\s*\n/);
+}
+
+// Split a notification that is too long for one message into numbered
+// messages ("1.2.0 (1/3)"). Messages break between entries; only an entry
+// that is too long on its own is cut, at a line boundary. Past collapseAfter
+// messages, a single summary listing the entries and the link is sent instead.
+export function splitSlackMessage(
+  payload: SlackPayload,
+  options: SlackOptions = {}
+): SlackMessagePart[] {
+  const maxLength = options.maxLength ?? DEFAULT_MAX_MESSAGE_LENGTH;
+  const entries = options.sections ?? splitSections(payload.changes);
+
+  if (payload.changes.length <= maxLength && entryBlockCount(entries) <= MAX_ENTRY_BLOCKS) {
+    return [{ payload, sections: entries }];
+  }
+
+  // Joined the way the parser joined them, plus a trailing link that is not
+  // part of any entry (e.g., the release notes page)
+  const separator = payload.changes.includes("\n---\n") ? "\n\n---\n\n" : "\n\n";
+  const lastLine = payload.changes.trim().split("\n").pop()!.trim();
+  const footer =
+    BARE_URL.test(lastLine) && !entries.some((e) => e.includes(lastLine)) ? lastLine : "";
+
+  // Messages are filled up to maxLength characters and the blocks a Block
+  // Kit message can hold
+  const groups: string[][] = [];
+  let size = 0;
+  let blockCount = 0;
+  for (const section of entries.flatMap((e) => chunkText(e, maxLength)).flatMap(fitEntryBlocks)) {
+    const group = groups[groups.length - 1];
+    const sectionBlocks = entryBlockCount([section]);
+    if (
+      group &&
+      size + separator.length + section.length <= maxLength &&
+      blockCount + 1 + sectionBlocks <= MAX_ENTRY_BLOCKS
+    ) {
+      group.push(section);
+      size += separator.length + section.length;
+      blockCount += 1 + sectionBlocks;
+    } else {
+      groups.push([section]);
+      size = section.length;
+      blockCount = sectionBlocks;
+    }
+  }
+
+  if (options.collapseAfter && groups.length > options.collapseAfter) {
+    const summary = summarizeEntries(entries, options.link ?? footer);
+    return [{ payload: { ...payload, changes: summary }, sections: [summary] }];
+  }
+
+  return groups.map((group, i) => {
+    const isLast = i === groups.length - 1;
+    return {
+      payload: {
+        ...payload,
+        version: `${payload.version} (${i + 1}/${groups.length})`,
+        changes: [group.join(separator), isLast ? footer : ""].filter(Boolean).join("\n\n"),
+      },
+      sections: group,
+    };
+  });
+}
+
+// "N entries, too long to post in full" with each entry's first line
+function summarizeEntries(entries: string[], link: string): string {
+  const headings = entries
+    .slice(0, SUMMARY_ENTRY_LIMIT)
+    .map((e) => `- ${e.trim().split("\n")[0].replace(/^#+\s*/, "")}`);
+  if (entries.length > SUMMARY_ENTRY_LIMIT) {
+    headings.push(`- …and ${entries.length - SUMMARY_ENTRY_LIMIT} more`);
+  }
+  return [
+    `${entries.length} entries, too long to post in full:`,
+    headings.join("\n"),
+    link,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Split the notification if needed and post the messages in order (after the
+// skipped ones), stopping at the first failure
 export async function sendSlackNotification(
   webhookUrl: string,
-  payload: SlackPayload
+  payload: SlackPayload,
+  options: SlackOptions = {}
 ): Promise<SlackResult> {
   if (!webhookUrl) {
     return { success: false, error: "No webhook URL configured" };
   }
 
-  const body = JSON.stringify(payload);
-  log.info(`  POST ${webhookUrl}`);
-  log.info(`  Payload: ${body}`);
-
-  try {
-    const response = await fetch(webhookUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body,
-    });
-
-    if (response.ok) {
-      log.info(`  Response: ${response.status} OK`);
-      return { success: true };
+  const parts = splitSlackMessage(payload, options);
+  for (const [i, part] of parts.entries()) {
+    if (i < (options.skipParts ?? 0)) continue;
+    const mention = i === 0 ? options.mention : undefined;
+    const body = JSON.stringify(
+      options.format === "blocks"
+        ? buildSlackBlocks(part.payload, part.sections, mention)
+        : mention
+          ? { ...part.payload, changes: `${mention}\n\n${part.payload.changes}` }
+          : part.payload
+    );
+    const result = await postJson(webhookUrl, body);
+    if (!result.success) {
+      return parts.length > 1
+        ? {
+            success: false,
+            error: `Message ${i + 1}/${parts.length}: ${result.error}`,
+            partsSent: i,
+          }
+        : result;
     }
-
-    const text = await response.text();
-    log.error(`  Response: ${response.status} ${text}`);
-    return { success: false, error: `${response.status}: ${text}` };
-  } catch (err) {
-    const errorMsg = err instanceof Error ? err.message : String(err);
-    log.error(`  Request failed: ${errorMsg}`);
-    return { success: false, error: errorMsg };
   }
+  return { success: true };
 }
@@ -0,0 +1,218 @@
+import crypto from "crypto";
+import net from "net";
+import os from "os";
+import tls from "tls";
+import { SmtpSecurity } from "./config";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username?: string;
+  password?: string;
+  timeoutMs?: number; // To connect, and per reply; default SMTP_TIMEOUT_MS
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const SMTP_TIMEOUT_MS = 30000;
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// Reads SMTP replies (possibly multi-line, "250-...") from a socket
+function replyReader(socket: net.Socket, timeoutMs: number): () => Promise<SmtpReply> {
+  let buffer = "";
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  let waiting: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null;
+
+  const settle = () => {
+    if (!waiting) return;
+    if (failure) {
+      waiting.reject(failure);
+      waiting = null;
+      return;
+    }
+    const end = lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (end === -1) return;
+    const replyLines = lines.slice(0, end + 1);
+    lines = lines.slice(end + 1);
+    const { resolve } = waiting;
+    waiting = null;
+    resolve({
+      code: Number(replyLines[end].slice(0, 3)),
+      text: replyLines.map((l) => l.slice(4)).join("\n"),
+    });
+  };
+
+  socket.setEncoding("utf8");
+  socket.setTimeout(timeoutMs, () => {
+    failure = new Error("SMTP server timed out");
+    socket.destroy();
+    settle();
+  });
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    const parts = buffer.split("\r\n");
+    buffer = parts.pop()!;
+    lines.push(...parts);
+    settle();
+  });
+  socket.on("error", (err) => {
+    failure = err;
+    settle();
+  });
+  socket.on("close", () => {
+    failure ??= new Error("SMTP connection closed");
+    settle();
+  });
+
+  return () =>
+    new Promise((resolve, reject) => {
+      waiting = { resolve, reject };
+      settle();
+    });
+}
+
+function connect(options: SmtpOptions, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const { host, port } = options;
+    // A server that never answers (or never finishes the TLS handshake)
+    const timedOut = () => {
+      socket.destroy();
+      reject(new Error("SMTP connection timed out"));
+    };
+    const connected = () => {
+      socket.setTimeout(0);
+      socket.off("timeout", timedOut);
+      resolve(socket);
+    };
+    const socket =
+      options.security === "tls"
+        ? tls.connect({ host, port }, connected)
+        : net.connect({ host, port }, connected);
+    socket.setTimeout(timeoutMs);
+    socket.once("timeout", timedOut);
+    socket.once("error", reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners("data");
+    socket.removeAllListeners("close");
+    socket.setTimeout(0);
+    // `host` is what the certificate is checked against; Node sends it for SNI
+    // unless it is an IP address
+    const secure = tls.connect({ socket, host }, () => resolve(secure));
+    secure.once("error", reject);
+  });
+}
+
+// RFC 2047 encoded-word for non-ASCII header values
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(text: string): string {
+  return (Buffer.from(text, "utf8").toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+}
+
+// multipart/alternative message with plain text and HTML parts
+export function buildMimeMessage(message: MailMessage, date = new Date()): string {
+  const boundary = `=_${crypto.randomBytes(12).toString("hex")}`;
+  const domain = message.from.split("@")[1]?.replace(/>.*$/, "") || "localhost";
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+// Send one message. Resolves when the server accepted it; throws with the
+// server's reply otherwise.
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? SMTP_TIMEOUT_MS;
+  let socket: net.Socket = await connect(options, timeoutMs);
+  let read = replyReader(socket, timeoutMs);
+
+  const command = async (line: string, expected: number[], shown = line) => {
+    socket.write(`${line}\r\n`);
+    const reply = await read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${shown} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  };
+
+  try {
+    const greeting = await read();
+    if (greeting.code !== 220) {
+      throw new Error(`SMTP greeting failed: ${greeting.code} ${greeting.text}`);
+    }
+
+    const hello = `EHLO ${os.hostname() || "localhost"}`;
+    const capabilities = await command(hello, [250]);
+
+    if (options.security === "starttls") {
+      if (!/^STARTTLS$/im.test(capabilities.text)) {
+        throw new Error("SMTP server does not support STARTTLS");
+      }
+      await command("STARTTLS", [220]);
+      socket = await upgradeToTls(socket, options.host);
+      read = replyReader(socket, timeoutMs);
+      await command(hello, [250]);
+    }
+
+    if (options.username) {
+      const credentials = Buffer.from(
+        `\0${options.username}\0${options.password ?? ""}`,
+        "utf8"
+      ).toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+    }
+
+    const address = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+    await command(`MAIL FROM:<${address(message.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await command(`RCPT TO:<${address(recipient)}>`, [250, 251]);
+    }
+    await command("DATA", [354]);
+
+    // Dot-stuffing: lines starting with "." get another one
+    const data = buildMimeMessage(message).replace(/^\./gm, "..");
+    await command(`${data}\r\n.`, [250], "DATA");
+    await command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
@@ -0,0 +1,684 @@
+import fs from "fs";
+import {
+  CHANGE_KINDS,
+  ChangeKind,
+  DATE_FORMATS,
+  DateFormat,
+  DIGEST_FILE,
+  DIGEST_PERIODS,
+  DigestPeriod,
+  ENTRY_MODES,
+  EntryMode,
+  FETCH_STRATEGIES,
+  FetchStrategy,
+  MuteRule,
+  NOTIFIER_TYPES,
+  NotificationTarget,
+  NotifierType,
+  OUTBOX_FILE,
+  PARSER_TYPES,
+  ParserType,
+  ReleaseSource,
+  RoutingRule,
+  SLACK_FORMATS,
+  SlackFormat,
+  SMTP_SECURITY_MODES,
+  SmtpSecurity,
+  SOURCES_FILE,
+  SourceRegistry,
+} from "./config";
+import { templateError } from "./template";
+import { watchTermError } from "./watchlist";
+
+// Words that can't be used as source ids because the CLI treats them specially
+const RESERVED_IDS = ["all", "status", "history"];
+
+const DEFAULT_TARGETS: Record<string, NotificationTarget> = {
+  slack: { webhookUrlEnv: "SLACK_WEBHOOK_URL" },
+};
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+// Errors of a watchlist: not a list of strings, or terms that don't compile
+function watchlistErrors(value: unknown, label?: string): string[] {
+  const prefix = label ? `${label}: ` : "";
+  if (!isStringArray(value) || !value.every(isNonEmptyString)) {
+    return [`${prefix}"watchlist" must be an array of terms or /regexes/`];
+  }
+  return value.flatMap((term) => {
+    const error = watchTermError(term);
+    return error ? [`${prefix}watchlist term "${term}" is invalid: ${error}`] : [];
+  });
+}
+
+function isValidRegex(value: unknown): boolean {
+  if (!isNonEmptyString(value)) return false;
+  try {
+    new RegExp(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Keys copied from a validated target; anything else is ignored
+const TARGET_KEYS: (keyof NotificationTarget)[] = [
+  "type",
+  "webhookUrlEnv",
+  "format",
+  "maxMessageLength",
+  "collapseAfter",
+  "template",
+  "bodyTemplate",
+  "smtpHost",
+  "smtpPort",
+  "smtpSecurity",
+  "smtpUserEnv",
+  "smtpPasswordEnv",
+  "from",
+  "to",
+  "toBySource",
+  "digest",
+  "priorityMention",
+];
+
+const EMAIL_KEYS = TARGET_KEYS.filter((key) => key.startsWith("smtp") || ["from", "to", "toBySource"].includes(key));
+
+function isEmailList(value: unknown): value is string[] {
+  return isStringArray(value) && value.length > 0 && value.every((v) => v.includes("@"));
+}
+
+// Every string inside a webhook template
+function templateStrings(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  if (typeof value === "object" && value !== null) {
+    return Object.values(value).flatMap(templateStrings);
+  }
+  return [];
+}
+
+function validateEmailSettings(raw: RawObject, label: string, errors: string[]): void {
+  if (!isNonEmptyString(raw.smtpHost)) {
+    errors.push(`${label}: "smtpHost" must be a non-empty string`);
+  }
+  if (
+    raw.smtpPort !== undefined &&
+    (!Number.isInteger(raw.smtpPort) || (raw.smtpPort as number) < 1 || (raw.smtpPort as number) > 65535)
+  ) {
+    errors.push(`${label}: "smtpPort" must be a port number`);
+  }
+  if (
+    raw.smtpSecurity !== undefined &&
+    !SMTP_SECURITY_MODES.includes(raw.smtpSecurity as SmtpSecurity)
+  ) {
+    errors.push(`${label}: "smtpSecurity" must be one of ${SMTP_SECURITY_MODES.join(", ")}`);
+  }
+  for (const key of ["smtpUserEnv", "smtpPasswordEnv"]) {
+    if (raw[key] !== undefined && !isNonEmptyString(raw[key])) {
+      errors.push(`${label}: "${key}" must be a non-empty string`);
+    }
+  }
+  if (!isNonEmptyString(raw.from) || !raw.from.includes("@")) {
+    errors.push(`${label}: "from" must be an email address`);
+  }
+  if (raw.to !== undefined && !isEmailList(raw.to)) {
+    errors.push(`${label}: "to" must be a non-empty list of email addresses`);
+  }
+  if (raw.toBySource !== undefined) {
+    if (!isObject(raw.toBySource) || !Object.values(raw.toBySource).every(isEmailList)) {
+      errors.push(`${label}: "toBySource" must map source ids to lists of email addresses`);
+    }
+  }
+  // Digests and sources not in toBySource go to `to`
+  if (raw.to === undefined) {
+    errors.push(
+      `${label}: "to" is required (recipients of sources not in "toBySource" and digests)`
+    );
+  }
+}
+
+function validateTarget(
+  name: string,
+  raw: unknown,
+  errors: string[]
+): NotificationTarget | null {
+  const label = `targets.${name}`;
+  if (!isObject(raw)) {
+    errors.push(`${label}: must be an object`);
+    return null;
+  }
+
+  const before = errors.length;
+  const type = (raw.type ?? "slack") as NotifierType;
+
+  if (!NOTIFIER_TYPES.includes(type)) {
+    errors.push(`${label}: "type" must be one of ${NOTIFIER_TYPES.join(", ")}`);
+  }
+  if (type !== "email" && !isNonEmptyString(raw.webhookUrlEnv)) {
+    errors.push(`${label}: "webhookUrlEnv" must be a non-empty string`);
+  }
+  if (raw.format !== undefined) {
+    if (type !== "slack") {
+      errors.push(`${label}: "format" only applies to slack targets`);
+    } else if (!SLACK_FORMATS.includes(raw.format as SlackFormat)) {
+      errors.push(`${label}: "format" must be one of ${SLACK_FORMATS.join(", ")}`);
+    }
+  }
+  for (const key of ["maxMessageLength", "collapseAfter"]) {
+    if (raw[key] === undefined) continue;
+    if (type === "webhook" || type === "email") {
+      errors.push(`${label}: "${key}" does not apply to ${type} targets`);
+    } else if (!Number.isInteger(raw[key]) || (raw[key] as number) < 1) {
+      errors.push(`${label}: "${key}" must be a positive whole number`);
+    }
+  }
+  if (type === "webhook") {
+    if (
+      !isNonEmptyString(raw.template) &&
+      (typeof raw.template !== "object" || raw.template === null)
+    ) {
+      errors.push(`${label}: "template" must be a string, object or array`);
+    } else {
+      for (const text of templateStrings(raw.template)) {
+        const error = templateError(text);
+        if (error) errors.push(`${label}: "template" is invalid: ${error}`);
+      }
+    }
+  } else if (raw.template !== undefined) {
+    errors.push(`${label}: "template" only applies to webhook targets`);
+  }
+  if (raw.bodyTemplate !== undefined) {
+    if (type === "webhook") {
+      errors.push(`${label}: "bodyTemplate" does not apply to webhook targets, use "template"`);
+    } else if (!isNonEmptyString(raw.bodyTemplate)) {
+      errors.push(`${label}: "bodyTemplate" must be a non-empty string`);
+    } else {
+      const error = templateError(raw.bodyTemplate);
+      if (error) errors.push(`${label}: "bodyTemplate" is invalid: ${error}`);
+    }
+  }
+  if (raw.priorityMention !== undefined) {
+    if (type === "webhook") {
+      errors.push(`${label}: "priorityMention" does not apply to webhook targets, use "isPriority" in the template`);
+    } else if (!isNonEmptyString(raw.priorityMention)) {
+      errors.push(`${label}: "priorityMention" must be a non-empty string`);
+    }
+  }
+  if (raw.digest !== undefined && !DIGEST_PERIODS.includes(raw.digest as DigestPeriod)) {
+    errors.push(`${label}: "digest" must be one of ${DIGEST_PERIODS.join(", ")}`);
+  }
+  if (type === "email") {
+    validateEmailSettings(raw, label, errors);
+  } else {
+    for (const key of EMAIL_KEYS.filter((k) => raw[k] !== undefined)) {
+      errors.push(`${label}: "${key}" only applies to email targets`);
+    }
+  }
+
+  if (errors.length > before) return null;
+
+  return Object.fromEntries(
+    TARGET_KEYS.filter((key) => raw[key] !== undefined).map((key) => [key, raw[key]])
+  ) as NotificationTarget;
+}
+
+function validateTargets(
+  raw: unknown,
+  errors: string[]
+): Record<string, NotificationTarget> {
+  if (raw === undefined) return DEFAULT_TARGETS;
+
+  if (!isObject(raw)) {
+    errors.push(`"targets" must be an object keyed by target name`);
+    return {};
+  }
+  // Changes are recorded as announced, so they must go somewhere
+  if (Object.keys(raw).length === 0) {
+    errors.push(`"targets" must name at least one target`);
+  }
+
+  const targets: Record<string, NotificationTarget> = {};
+  for (const [name, entry] of Object.entries(raw)) {
+    const target = validateTarget(name, entry, errors);
+    if (target) targets[name] = target;
+  }
+  return targets;
+}
+
+function validateParserOptions(
+  parserType: ParserType,
+  options: RawObject,
+  label: string,
+  errors: string[]
+): void {
+  const optionalStrings: string[] = [];
+  const optionalBooleans: string[] = [];
+
+  switch (parserType) {
+    case "wayback":
+      if (
+        options.strategies !== undefined &&
+        (!isStringArray(options.strategies) ||
+          options.strategies.length === 0 ||
+          options.strategies.some(
+            (s) => !FETCH_STRATEGIES.includes(s as FetchStrategy)
+          ))
+      ) {
+        errors.push(
+          `${label}: parserOptions.strategies must be a non-empty list of ${FETCH_STRATEGIES.join(", ")}`
+        );
+      }
+      if (
+        options.entryMode !== undefined &&
+        !ENTRY_MODES.includes(options.entryMode as EntryMode)
+      ) {
+        errors.push(
+          `${label}: parserOptions.entryMode must be one of ${ENTRY_MODES.join(", ")}`
+        );
+      }
+      if (
+        options.dateFormat !== undefined &&
+        !DATE_FORMATS.includes(options.dateFormat as DateFormat)
+      ) {
+        errors.push(
+          `${label}: parserOptions.dateFormat must be one of ${DATE_FORMATS.join(", ")}`
+        );
+      }
+      for (const key of ["datePattern", "linkPattern"]) {
+        if (options[key] !== undefined && !isValidRegex(options[key])) {
+          errors.push(`${label}: parserOptions.${key} must be a valid regular expression`);
+        }
+      }
+      if (
+        options.headingLevels !== undefined &&
+        (!Array.isArray(options.headingLevels) ||
+          options.headingLevels.length === 0 ||
+          options.headingLevels.some(
+            (n) => !Number.isInteger(n) || n < 1 || n > 6
+          ))
+      ) {
+        errors.push(
+          `${label}: parserOptions.headingLevels must be a non-empty list of 1-6`
+        );
+      }
+      if (
+        options.maxBodyLength !== undefined &&
+        (!Number.isInteger(options.maxBodyLength) || (options.maxBodyLength as number) < 0)
+      ) {
+        errors.push(`${label}: parserOptions.maxBodyLength must be a non-negative integer`);
+      }
+      if (options.fetchArticles !== undefined && typeof options.fetchArticles !== "boolean") {
+        errors.push(`${label}: parserOptions.fetchArticles must be a boolean`);
+      }
+      break;
+
+    case "github-releases":
+      if (
+        !isNonEmptyString(options.repo) ||
+        !/^[\w.-]+\/[\w.-]+$/.test(options.repo)
+      ) {
+        errors.push(`${label}: parserOptions.repo must be "owner/repo"`);
+      }
+      optionalStrings.push("tokenEnv", "apiBaseUrl");
+      optionalBooleans.push("includePrereleases", "includeDrafts");
+      break;
+
+    case "npm":
+    case "pypi":
+      if (!isNonEmptyString(options.package)) {
+        errors.push(`${label}: parserOptions.package must be a non-empty string`);
+      }
+      optionalStrings.push("registryUrl");
+      optionalBooleans.push("includePrereleases");
+      break;
+  }
+
+  for (const key of optionalStrings) {
+    if (options[key] !== undefined && !isNonEmptyString(options[key])) {
+      errors.push(`${label}: parserOptions.${key} must be a non-empty string`);
+    }
+  }
+  for (const key of optionalBooleans) {
+    if (options[key] !== undefined && typeof options[key] !== "boolean") {
+      errors.push(`${label}: parserOptions.${key} must be a boolean`);
+    }
+  }
+}
+
+function validateSource(
+  raw: unknown,
+  index: number,
+  targetNames: string[],
+  errors: string[]
+): ReleaseSource | null {
+  const where = `sources[${index}]`;
+  if (!isObject(raw)) {
+    errors.push(`${where}: must be an object`);
+    return null;
+  }
+
+  const before = errors.length;
+  const label = isNonEmptyString(raw.id) ? `${where} (${raw.id})` : where;
+
+  if (!isNonEmptyString(raw.id) || !/^[a-z0-9][a-z0-9-]*$/.test(raw.id)) {
+    errors.push(`${label}: "id" must be lowercase letters, digits and dashes`);
+  } else if (RESERVED_IDS.includes(raw.id)) {
+    errors.push(`${label}: "id" must not be one of ${RESERVED_IDS.join(", ")}`);
+  }
+  for (const field of ["name", "url"]) {
+    if (!isNonEmptyString(raw[field])) {
+      errors.push(`${label}: "${field}" must be a non-empty string`);
+    }
+  }
+  for (const field of ["stateFile", "releasePageUrl"]) {
+    if (raw[field] !== undefined && !isNonEmptyString(raw[field])) {
+      errors.push(`${label}: "${field}" must be a non-empty string when set`);
+    }
+  }
+  // State files live in DATA_DIR, nowhere else
+  if (isNonEmptyString(raw.stateFile) && /[/\\]|\.\./.test(raw.stateFile)) {
+    errors.push(`${label}: "stateFile" must be a file name, without "/", "\\" or ".."`);
+  }
+  if (!PARSER_TYPES.includes(raw.parserType as ParserType)) {
+    errors.push(
+      `${label}: "parserType" must be one of ${PARSER_TYPES.join(", ")}`
+    );
+  }
+  if (raw.parserOptions !== undefined && !isObject(raw.parserOptions)) {
+    errors.push(`${label}: "parserOptions" must be an object`);
+  } else if (PARSER_TYPES.includes(raw.parserType as ParserType)) {
+    validateParserOptions(
+      raw.parserType as ParserType,
+      (raw.parserOptions as RawObject | undefined) ?? {},
+      label,
+      errors
+    );
+  }
+  if (raw.notify !== undefined) {
+    if (!isStringArray(raw.notify)) {
+      errors.push(`${label}: "notify" must be an array of target names`);
+    } else {
+      for (const name of raw.notify.filter((n) => !targetNames.includes(n))) {
+        errors.push(`${label}: unknown notify target "${name}"`);
+      }
+    }
+  }
+
+  if (raw.detectEdits !== undefined && typeof raw.detectEdits !== "boolean") {
+    errors.push(`${label}: "detectEdits" must be a boolean`);
+  }
+
+  if (
+    raw.retractAfter !== undefined &&
+    (!Number.isInteger(raw.retractAfter) || (raw.retractAfter as number) < 0)
+  ) {
+    errors.push(`${label}: "retractAfter" must be a whole number of checks (0 to disable)`);
+  }
+
+  if (raw.watchlist !== undefined) {
+    errors.push(...watchlistErrors(raw.watchlist, label));
+  }
+
+  if (errors.length > before) return null;
+
+  const id = raw.id as string;
+  const url = raw.url as string;
+  return {
+    id,
+    name: raw.name as string,
+    url,
+    parserType: raw.parserType as ParserType,
+    stateFile: (raw.stateFile as string | undefined) ?? `${id}.json`,
+    releasePageUrl: (raw.releasePageUrl as string | undefined) ?? url,
+    ...(raw.parserOptions !== undefined && {
+      parserOptions: raw.parserOptions as RawObject,
+    }),
+    ...(raw.notify !== undefined && { notify: raw.notify as string[] }),
+    ...(raw.detectEdits !== undefined && { detectEdits: raw.detectEdits as boolean }),
+    ...(raw.retractAfter !== undefined && { retractAfter: raw.retractAfter as number }),
+    ...(raw.watchlist !== undefined && { watchlist: raw.watchlist as string[] }),
+  };
+}
+
+function validateRoute(
+  raw: unknown,
+  index: number,
+  sourceIds: string[],
+  targetNames: string[],
+  errors: string[]
+): RoutingRule | null {
+  const label = `routes[${index}]`;
+  if (!isObject(raw)) {
+    errors.push(`${label}: must be an object`);
+    return null;
+  }
+
+  const before = errors.length;
+
+  if (!isStringArray(raw.targets) || raw.targets.length === 0) {
+    errors.push(`${label}: "targets" must be a non-empty array of target names`);
+  } else {
+    for (const name of raw.targets.filter((t) => !targetNames.includes(t))) {
+      errors.push(`${label}: unknown target "${name}"`);
+    }
+  }
+  if (raw.sources !== undefined) {
+    if (!isStringArray(raw.sources) || raw.sources.length === 0) {
+      errors.push(`${label}: "sources" must be a non-empty array of source ids`);
+    } else {
+      for (const id of raw.sources.filter((s) => !sourceIds.includes(s))) {
+        errors.push(`${label}: unknown source "${id}"`);
+      }
+    }
+  }
+  if (
+    raw.kinds !== undefined &&
+    (!isStringArray(raw.kinds) ||
+      raw.kinds.length === 0 ||
+      !raw.kinds.every((k) => (CHANGE_KINDS as readonly string[]).includes(k)))
+  ) {
+    errors.push(`${label}: "kinds" must be a non-empty array of ${CHANGE_KINDS.join(", ")}`);
+  }
+  if (
+    raw.keywords !== undefined &&
+    (!isStringArray(raw.keywords) ||
+      raw.keywords.length === 0 ||
+      !raw.keywords.every(isNonEmptyString))
+  ) {
+    errors.push(`${label}: "keywords" must be a non-empty array of non-empty strings`);
+  }
+  if (raw.priority !== undefined && typeof raw.priority !== "boolean") {
+    errors.push(`${label}: "priority" must be a boolean`);
+  }
+
+  if (errors.length > before) return null;
+
+  return {
+    ...(raw.sources !== undefined && { sources: raw.sources as string[] }),
+    ...(raw.kinds !== undefined && { kinds: raw.kinds as ChangeKind[] }),
+    ...(raw.keywords !== undefined && { keywords: raw.keywords as string[] }),
+    ...(raw.priority !== undefined && { priority: raw.priority as boolean }),
+    targets: raw.targets as string[],
+  };
+}
+
+function validateRoutes(
+  raw: unknown,
+  sourceIds: string[],
+  targetNames: string[],
+  errors: string[]
+): RoutingRule[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    errors.push(`"routes" must be an array`);
+    return [];
+  }
+  return raw
+    .map((rule, index) => validateRoute(rule, index, sourceIds, targetNames, errors))
+    .filter((rule): rule is RoutingRule => rule !== null);
+}
+
+function validateMuteRule(
+  raw: unknown,
+  index: number,
+  sourceIds: string[],
+  errors: string[]
+): MuteRule | null {
+  const label = `mute[${index}]`;
+  if (!isObject(raw)) {
+    errors.push(`${label}: must be an object`);
+    return null;
+  }
+
+  const before = errors.length;
+
+  if (raw.sources !== undefined) {
+    if (!isStringArray(raw.sources) || raw.sources.length === 0) {
+      errors.push(`${label}: "sources" must be a non-empty array of source ids`);
+    } else {
+      for (const id of raw.sources.filter((s) => !sourceIds.includes(s))) {
+        errors.push(`${label}: unknown source "${id}"`);
+      }
+    }
+  }
+  if (raw.pattern !== undefined && !isValidRegex(raw.pattern)) {
+    errors.push(`${label}: "pattern" must be a valid regular expression`);
+  }
+  if (
+    raw.minBodyLength !== undefined &&
+    (!Number.isInteger(raw.minBodyLength) || (raw.minBodyLength as number) < 1)
+  ) {
+    errors.push(`${label}: "minBodyLength" must be a positive whole number`);
+  }
+  if (
+    raw.categories !== undefined &&
+    (!isStringArray(raw.categories) ||
+      raw.categories.length === 0 ||
+      !raw.categories.every(isNonEmptyString))
+  ) {
+    errors.push(`${label}: "categories" must be a non-empty array of category names`);
+  }
+  // A rule with only "sources" would silence those sources completely
+  if (raw.pattern === undefined && raw.minBodyLength === undefined && raw.categories === undefined) {
+    errors.push(`${label}: needs "pattern", "minBodyLength" or "categories"`);
+  }
+
+  if (errors.length > before) return null;
+
+  return {
+    ...(raw.sources !== undefined && { sources: raw.sources as string[] }),
+    ...(raw.pattern !== undefined && { pattern: raw.pattern as string }),
+    ...(raw.minBodyLength !== undefined && { minBodyLength: raw.minBodyLength as number }),
+    ...(raw.categories !== undefined && { categories: raw.categories as string[] }),
+  };
+}
+
+function validateMuteRules(raw: unknown, sourceIds: string[], errors: string[]): MuteRule[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    errors.push(`"mute" must be an array`);
+    return [];
+  }
+  return raw
+    .map((rule, index) => validateMuteRule(rule, index, sourceIds, errors))
+    .filter((rule): rule is MuteRule => rule !== null);
+}
+
+// Validate the parsed contents of a sources file and resolve defaults
+// (stateFile = "<id>.json", releasePageUrl = url, one "slack" target).
+// Throws with every problem listed so a bad file can be fixed in one go.
+export function validateRegistry(raw: unknown): SourceRegistry {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    throw new Error("Invalid sources file:\n  - top level must be an object");
+  }
+
+  const targets = validateTargets(raw.targets, errors);
+
+  const sources: Record<string, ReleaseSource> = {};
+  if (!Array.isArray(raw.sources) || raw.sources.length === 0) {
+    errors.push(`"sources" must be a non-empty array`);
+  } else {
+    const stateFiles = new Set<string>();
+    raw.sources.forEach((entry, index) => {
+      const source = validateSource(entry, index, Object.keys(targets), errors);
+      if (!source) return;
+
+      if (Object.hasOwn(sources, source.id)) {
+        errors.push(`sources[${index}]: duplicate id "${source.id}"`);
+      } else if ([OUTBOX_FILE, DIGEST_FILE].includes(source.stateFile)) {
+        errors.push(`sources[${index}]: stateFile "${source.stateFile}" is reserved`);
+      } else if (stateFiles.has(source.stateFile)) {
+        errors.push(
+          `sources[${index}]: stateFile "${source.stateFile}" is already used`
+        );
+      } else {
+        sources[source.id] = source;
+        stateFiles.add(source.stateFile);
+      }
+    });
+  }
+
+  for (const [name, target] of Object.entries(targets)) {
+    for (const id of Object.keys(target.toBySource ?? {})) {
+      if (!Object.hasOwn(sources, id)) {
+        errors.push(`targets.${name}: toBySource has unknown source "${id}"`);
+      }
+    }
+  }
+
+  const routes = validateRoutes(raw.routes, Object.keys(sources), Object.keys(targets), errors);
+
+  if (raw.watchlist !== undefined) {
+    errors.push(...watchlistErrors(raw.watchlist));
+  }
+
+  const mute = validateMuteRules(raw.mute, Object.keys(sources), errors);
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid sources file:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+
+  return {
+    sources,
+    targets,
+    routes,
+    watchlist: (raw.watchlist as string[] | undefined) ?? [],
+    mute,
+  };
+}
+
+// Read and validate the source registry (sources.json by default)
+export function loadSources(filePath: string = SOURCES_FILE): SourceRegistry {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf8");
+  } catch {
+    throw new Error(`Cannot read sources file: ${filePath}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(`Sources file ${filePath} is not valid JSON: ${reason}`);
+  }
+
+  return validateRegistry(raw);
+}
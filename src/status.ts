@@ -0,0 +1,76 @@
+import { ReleaseSource } from "./config";
+import { StoredData } from "./hash-store";
+
+// Per-source state for the `status` command, from each source's state file
+
+export type SourceHealth = "ok" | "failing" | "never checked";
+
+export interface SourceStatus {
+  id: string;
+  name: string;
+  health: SourceHealth;
+  identifier: string | null;
+  lastCheckAt: string | null;
+  lastSuccessAt: string | null;
+  lastChangeAt: string | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  snapshotTimestamp: string | null; // Wayback timestamp, e.g. "20260115123456"
+}
+
+// Longest identifier and error shown in the table; --json has them in full
+const MAX_CELL_LENGTH = 40;
+
+export function sourceStatus(source: ReleaseSource, data: StoredData | null): SourceStatus {
+  const consecutiveFailures = data?.consecutiveFailures ?? 0;
+  return {
+    id: source.id,
+    name: source.name,
+    health: !data ? "never checked" : consecutiveFailures > 0 ? "failing" : "ok",
+    identifier: data?.identifier ?? null,
+    lastCheckAt: data?.lastCheckAt ?? null,
+    lastSuccessAt: data?.lastSuccessAt ?? null,
+    lastChangeAt: data?.lastChangeAt ?? null,
+    consecutiveFailures,
+    lastError: data?.lastError ?? null,
+    snapshotTimestamp: data?.snapshotTimestamp ?? null,
+  };
+}
+
+// "2026-01-15T12:34:56.789Z" -> "2026-01-15 12:34"; "-" when unknown
+export function formatTime(iso: string | null): string {
+  return iso ? iso.slice(0, 16).replace("T", " ") : "-";
+}
+
+// "20260115123456" -> "2026-01-15 12:34"
+function formatSnapshot(timestamp: string | null): string {
+  const m = timestamp?.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})/);
+  return m ? `${m[1]}-${m[2]}-${m[3]} ${m[4]}:${m[5]}` : timestamp ?? "-";
+}
+
+function cell(text: string | null): string {
+  if (!text) return "-";
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > MAX_CELL_LENGTH ? `${line.slice(0, MAX_CELL_LENGTH - 1)}…` : line;
+}
+
+// One row per source, columns padded to their widest value (times in UTC)
+export function formatStatusTable(rows: SourceStatus[]): string {
+  const table = [
+    ["SOURCE", "HEALTH", "IDENTIFIER", "LAST SUCCESS", "LAST CHANGE", "FAILURES", "SNAPSHOT", "LAST ERROR"],
+    ...rows.map((r) => [
+      r.id,
+      r.health,
+      cell(r.identifier),
+      formatTime(r.lastSuccessAt),
+      formatTime(r.lastChangeAt),
+      String(r.consecutiveFailures),
+      formatSnapshot(r.snapshotTimestamp),
+      cell(r.lastError),
+    ]),
+  ];
+  const widths = table[0].map((_, i) => Math.max(...table.map((row) => row[i].length)));
+  return table
+    .map((row) => row.map((value, i) => value.padEnd(widths[i])).join("  ").trimEnd())
+    .join("\n");
+}
@@ -0,0 +1,114 @@
+import { TEAMS_MAX_MESSAGE_LENGTH } from "./config";
+import { postJson } from "./http";
+import { SlackOptions, SlackPayload, SlackResult, splitSlackMessage } from "./slack";
+
+export type TeamsOptions = Omit<SlackOptions, "format">;
+
+interface AdaptiveElement {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface TeamsMessage {
+  type: "message";
+  attachments: {
+    contentType: "application/vnd.microsoft.card.adaptive";
+    content: {
+      $schema: string;
+      type: "AdaptiveCard";
+      version: string;
+      body: AdaptiveElement[];
+      actions: AdaptiveElement[];
+    };
+  }[];
+}
+
+// Adaptive Card text supports bold, italic, lists and links but no headings
+export function toTeamsMarkdown(markdown: string): string {
+  return markdown.replace(/^#{1,6}\s+(.+?)\s*#*$/gm, "**$1**");
+}
+
+// Adaptive Card for a Teams incoming webhook (Workflows or legacy connector):
+// title with source and version, the mention if any, a text block per entry,
+// and a button to the release notes
+export function buildTeamsMessage(
+  payload: SlackPayload,
+  sections: string[],
+  link?: string,
+  mention?: string
+): TeamsMessage {
+  const body: AdaptiveElement[] = [
+    {
+      type: "TextBlock",
+      text: `${payload.source} ${payload.version}`,
+      weight: "Bolder",
+      size: "Medium",
+      wrap: true,
+    },
+    ...(mention ? [{ type: "TextBlock", text: mention, color: "Attention", wrap: true }] : []),
+    ...sections.map((text, i) => ({
+      type: "TextBlock",
+      text: toTeamsMarkdown(text.trim()),
+      wrap: true,
+      separator: i > 0,
+    })),
+  ];
+  if (payload.test === "yes") {
+    body.push({ type: "TextBlock", text: "Test notification", isSubtle: true, size: "Small" });
+  }
+
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body,
+          actions: link ? [{ type: "Action.OpenUrl", title: "View release notes", url: link }] : [],
+        },
+      },
+    ],
+  };
+}
+
+export async function sendTeamsNotification(
+  webhookUrl: string,
+  payload: SlackPayload,
+  options: TeamsOptions = {}
+): Promise<SlackResult> {
+  if (!webhookUrl) {
+    return { success: false, error: "No webhook URL configured" };
+  }
+
+  const parts = splitSlackMessage(payload, {
+    ...options,
+    maxLength: options.maxLength ?? TEAMS_MAX_MESSAGE_LENGTH,
+  });
+  for (const [i, part] of parts.entries()) {
+    if (i < (options.skipParts ?? 0)) continue;
+    const result = await postJson(
+      webhookUrl,
+      JSON.stringify(
+        buildTeamsMessage(
+          part.payload,
+          part.sections,
+          options.link,
+          i === 0 ? options.mention : undefined
+        )
+      )
+    );
+    if (!result.success) {
+      return parts.length > 1
+        ? {
+            success: false,
+            error: `Message ${i + 1}/${parts.length}: ${result.error}`,
+            partsSent: i,
+          }
+        : result;
+    }
+  }
+  return { success: true };
+}
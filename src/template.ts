@@ -0,0 +1,157 @@
+// Mustache-style templates for notification text:
+//   {{name}}, {{a.b}}, {{.}}     value (escaped, if the caller escapes)
+//   {{{name}}}, {{&name}}        value, never escaped
+//   {{#name}}…{{/name}}          once per list item, or once if truthy
+//   {{^name}}…{{/name}}          if missing, false, empty string or empty list
+//   {{! comment }}
+// Section and comment tags on a line of their own don't leave a blank line.
+
+export type TemplateView = Record<string, unknown>;
+
+export interface TemplateOptions {
+  escape?: (value: string) => string; // Applied to {{name}}; default none
+  keepUnknown?: boolean; // Leave {{name}} as written when the name is not defined
+}
+
+type Token =
+  | { type: "text"; text: string }
+  | { type: "value"; name: string; raw: boolean; tag: string }
+  | { type: "section"; name: string; inverted: boolean; children: Token[] };
+
+function isStandalone(template: string, start: number, end: number): boolean {
+  const lineStart = template.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = template.indexOf("\n", end);
+  return (
+    /^[ \t]*$/.test(template.slice(lineStart, start)) &&
+    /^[ \t]*\r?$/.test(template.slice(end, lineEnd === -1 ? template.length : lineEnd))
+  );
+}
+
+// Throws on unclosed tags and mismatched sections
+function parseTemplate(template: string): Token[] {
+  const root: Token[] = [];
+  const open: { name: string; tokens: Token[] }[] = [{ name: "", tokens: root }];
+  let text = "";
+  let pos = 0;
+
+  const current = () => open[open.length - 1].tokens;
+  const flushText = () => {
+    if (text) current().push({ type: "text", text });
+    text = "";
+  };
+
+  while (pos < template.length) {
+    const start = template.indexOf("{{", pos);
+    if (start === -1) {
+      text += template.slice(pos);
+      break;
+    }
+    text += template.slice(pos, start);
+
+    const triple = template[start + 2] === "{";
+    const close = template.indexOf(triple ? "}}}" : "}}", start + 2);
+    if (close === -1) throw new Error(`Unclosed tag at position ${start}`);
+    const end = close + (triple ? 3 : 2);
+    const content = template.slice(start + (triple ? 3 : 2), close).trim();
+    const sigil = triple ? "{" : /^[#^/!&]/.test(content) ? content[0] : "";
+    const name = (sigil && !triple ? content.slice(1) : content).trim();
+    pos = end;
+
+    if (sigil === "" || sigil === "{" || sigil === "&") {
+      if (!name) throw new Error(`Empty tag at position ${start}`);
+      flushText();
+      current().push({ type: "value", name, raw: sigil !== "", tag: template.slice(start, end) });
+      continue;
+    }
+
+    // Section, closing and comment tags alone on their line take the line with them
+    if (isStandalone(template, start, end)) {
+      text = text.replace(/[ \t]*$/, "");
+      const lineEnd = template.indexOf("\n", end);
+      pos = lineEnd === -1 ? template.length : lineEnd + 1;
+    }
+    if (sigil === "!") continue;
+
+    flushText();
+    if (sigil === "/") {
+      if (open.length === 1 || open[open.length - 1].name !== name) {
+        throw new Error(`Unexpected {{/${name}}}`);
+      }
+      open.pop();
+    } else {
+      const section: Token = { type: "section", name, inverted: sigil === "^", children: [] };
+      current().push(section);
+      open.push({ name, tokens: section.children });
+    }
+  }
+
+  flushText();
+  if (open.length > 1) throw new Error(`Unclosed section {{#${open[open.length - 1].name}}}`);
+  return root;
+}
+
+// Error message for an invalid template, or null
+export function templateError(template: string): string | null {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+function lookup(stack: unknown[], name: string): unknown {
+  if (name === ".") return stack[stack.length - 1];
+  const [first, ...rest] = name.split(".");
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const context = stack[i];
+    if (typeof context === "object" && context !== null && first in context) {
+      return rest.reduce<unknown>(
+        (value, key) =>
+          typeof value === "object" && value !== null
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        (context as Record<string, unknown>)[first]
+      );
+    }
+  }
+  return undefined;
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(toText).join(", ");
+  if (typeof value === "object") return "";
+  return String(value);
+}
+
+function renderTokens(tokens: Token[], stack: unknown[], options: TemplateOptions): string {
+  return tokens
+    .map((token) => {
+      if (token.type === "text") return token.text;
+
+      const value = lookup(stack, token.name);
+      if (token.type === "value") {
+        if (value === undefined && options.keepUnknown) return token.tag;
+        const text = toText(value);
+        return token.raw || !options.escape ? text : options.escape(text);
+      }
+
+      const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+      if (token.inverted) return truthy ? "" : renderTokens(token.children, stack, options);
+      if (!truthy) return "";
+      const items = Array.isArray(value) ? value : [value];
+      return items.map((item) => renderTokens(token.children, [...stack, item], options)).join("");
+    })
+    .join("");
+}
+
+// Render a template against a view. Throws on an invalid template; check
+// user templates with templateError first.
+export function renderTemplate(
+  template: string,
+  view: TemplateView,
+  options: TemplateOptions = {}
+): string {
+  return renderTokens(parseTemplate(template), [view], options);
+}
@@ -0,0 +1,98 @@
+import { Change, ReleaseEntry } from "./changelog";
+import { keywordPattern } from "./keywords";
+
+// Watchlist terms: "MCP" matches at the start of a word, case-insensitively
+// ("hook" matches "Hooks", not "webhook"); "/claude-(opus|sonnet)/i" is a
+// regular expression.
+
+const REGEX_TERM = /^\/(.+)\/([a-z]*)$/;
+
+// Plain terms match like routing keywords (see keywordPattern)
+export function watchPattern(term: string): RegExp {
+  const regex = term.match(REGEX_TERM);
+  if (regex) return new RegExp(regex[1], regex[2].replace("g", "") + "g");
+  return keywordPattern(term);
+}
+
+// Error message for an invalid term, or null
+export function watchTermError(term: string): string | null {
+  try {
+    watchPattern(term);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+// The terms mentioned in a text, in watchlist order
+export function findWatchMatches(text: string, terms: string[]): string[] {
+  return terms.filter((term) => watchPattern(term).test(text));
+}
+
+export function entryWatchMatches(entry: ReleaseEntry, terms: string[]): string[] {
+  return findWatchMatches([entry.title, entry.body ?? ""].join("\n"), terms);
+}
+
+// Parts of a message that must stay as written: code (such as the diff of an
+// updated entry), URLs and link targets
+const LITERAL = /(```[\s\S]*?```|`[^`\n]*`|\]\([^)]*\)|https?:\/\/\S+)/;
+
+// The text outside those parts, where terms are looked for and highlighted
+function proseOf(text: string): string {
+  return text
+    .split(LITERAL)
+    .filter((_, i) => i % 2 === 0)
+    .join(" ");
+}
+
+// Make every mention of a term **bold**. Overlapping mentions are merged and
+// mentions already in bold are left alone.
+export function highlightWatchTerms(text: string, terms: string[]): string {
+  if (terms.length === 0) return text;
+  return text
+    .split(LITERAL)
+    .map((part, i) => {
+      if (i % 2 === 1) return part;
+
+      const ranges = terms
+        .flatMap((term) => [...part.matchAll(watchPattern(term))])
+        .filter((m) => m[0].length > 0)
+        .map((m) => [m.index!, m.index! + m[0].length])
+        .sort((a, b) => a[0] - b[0]);
+      const merged: number[][] = [];
+      for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+        else merged.push(range);
+      }
+
+      let result = "";
+      let pos = 0;
+      for (const [start, end] of merged) {
+        const bold = part.slice(start - 2, start) === "**" && part.slice(end, end + 2) === "**";
+        result += part.slice(pos, start) + (bold ? part.slice(start, end) : `**${part.slice(start, end)}**`);
+        pos = end;
+      }
+      return result + part.slice(pos);
+    })
+    .join("");
+}
+
+// A change mentioning watched terms, highlighted and marked with them
+export function watchChange(change: Change, terms: string[]): Change {
+  // Terms only in a link or code would mark the change without showing why
+  const watchMatches = findWatchMatches(
+    `${change.version}\n${proseOf(change.formattedChanges)}`,
+    terms
+  );
+  if (watchMatches.length === 0) return change;
+
+  const highlight = (text: string) => highlightWatchTerms(text, watchMatches);
+  return {
+    ...change,
+    // The text of an updated entry is a bare diff; its sections fence it
+    formattedChanges: change.diff ? change.formattedChanges : highlight(change.formattedChanges),
+    ...(change.sections && { sections: change.sections.map(highlight) }),
+    watchMatches,
+  };
+}
@@ -0,0 +1,44 @@
+import { WebhookTemplate } from "./config";
+import { postJson } from "./http";
+import { SlackResult } from "./slack";
+import { renderTemplate, TemplateView } from "./template";
+
+// Values available to templates as {{name}}, see notificationView()
+export type WebhookFields = TemplateView;
+
+function fill(text: string, fields: WebhookFields, escape: (v: string) => string): string {
+  return renderTemplate(text, fields, { escape, keepUnknown: true });
+}
+
+function fillValue(value: unknown, fields: WebhookFields): unknown {
+  if (typeof value === "string") return fill(value, fields, (v) => v);
+  if (Array.isArray(value)) return value.map((v) => fillValue(v, fields));
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, fillValue(v, fields)])
+    );
+  }
+  return value;
+}
+
+// Build the request body. Object and array templates are rendered inside
+// their strings; a string template is used as the raw body with values
+// JSON-escaped, so "{\"text\": \"{{changes}}\"}" stays valid JSON. Unknown
+// placeholders are left as they are.
+export function renderWebhookTemplate(template: WebhookTemplate, fields: WebhookFields): string {
+  if (typeof template === "string") {
+    return fill(template, fields, (v) => JSON.stringify(v).slice(1, -1));
+  }
+  return JSON.stringify(fillValue(template, fields));
+}
+
+export async function sendWebhookNotification(
+  webhookUrl: string,
+  template: WebhookTemplate,
+  fields: WebhookFields
+): Promise<SlackResult> {
+  if (!webhookUrl) {
+    return { success: false, error: "No webhook URL configured" };
+  }
+  return postJson(webhookUrl, renderWebhookTemplate(template, fields));
+}
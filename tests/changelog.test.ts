@@ -6,14 +6,23 @@ import {
   getVersionsSince,
   stripHtml,
   htmlToText,
+  htmlToMarkdown,
   extractOriginalUrl,
-  extractGeminiDate,
-  extractMonthDayYearDate,
   parseMonthDayYearDate,
+  parseYearMonthDayDate,
+  getExtractionRules,
   extractDateEntries,
   getNewDateEntries,
   extractBlogPosts,
+  extractLeadParagraph,
   getNewBlogPosts,
+  extractFeedItems,
+  sortFeedItems,
+  getNewFeedItems,
+  releasesToVersions,
+  npmVersions,
+  pypiVersions,
+  registryVersionsToEntries,
   VersionEntry,
 } from "../src/changelog";
 
@@ -195,6 +204,123 @@ describe("isNewerIdentifier", () => {
   });
 });
 
+describe("releasesToVersions", () => {
+  const release = (tag_name: string, flags: { draft?: boolean; prerelease?: boolean } = {}) => ({
+    tag_name,
+    name: null,
+    body: `Notes for ${tag_name}`,
+    html_url: `https://github.com/acme/tool/releases/tag/${tag_name}`,
+    draft: flags.draft ?? false,
+    prerelease: flags.prerelease ?? false,
+  });
+
+  it("orders releases by semver, not API order", () => {
+    const versions = releasesToVersions(
+      [release("v1.10.0"), release("v1.9.0"), release("v1.11.0")],
+      {}
+    );
+    expect(versions.map((v) => v.version)).toEqual(["v1.11.0", "v1.10.0", "v1.9.0"]);
+  });
+
+  it("filters drafts and prereleases unless enabled", () => {
+    const releases = [
+      release("v2.0.0", { draft: true }),
+      release("v2.0.0-rc.1", { prerelease: true }),
+      release("v1.0.0"),
+    ];
+    expect(releasesToVersions(releases, {}).map((v) => v.version)).toEqual(["v1.0.0"]);
+    expect(
+      releasesToVersions(releases, { includeDrafts: true, includePrereleases: true }).map(
+        (v) => v.version
+      )
+    ).toEqual(["v2.0.0", "v2.0.0-rc.1", "v1.0.0"]);
+  });
+
+  it("builds a markdown block with heading, body and link", () => {
+    const [entry] = releasesToVersions([release("v1.0.0")], {});
+    expect(entry.changes).toBe(
+      "## v1.0.0\n\nNotes for v1.0.0\n\nhttps://github.com/acme/tool/releases/tag/v1.0.0"
+    );
+  });
+});
+
+describe("npmVersions", () => {
+  it("lists versions with publish time and npmjs link, skipping deprecated ones", () => {
+    const versions = npmVersions(
+      {
+        versions: {
+          "0.9.0": { deprecated: "use 1.x" },
+          "1.0.0": {},
+          "1.1.0-beta.0": {},
+        },
+        time: { "1.0.0": "2026-02-10T12:00:00.000Z" },
+      },
+      "@acme/sdk"
+    );
+
+    expect(versions).toEqual([
+      {
+        version: "1.0.0",
+        publishedAt: "2026-02-10T12:00:00.000Z",
+        url: "https://www.npmjs.com/package/@acme/sdk/v/1.0.0",
+        prerelease: false,
+      },
+      {
+        version: "1.1.0-beta.0",
+        publishedAt: undefined,
+        url: "https://www.npmjs.com/package/@acme/sdk/v/1.1.0-beta.0",
+        prerelease: true,
+      },
+    ]);
+  });
+});
+
+describe("pypiVersions", () => {
+  it("uses the earliest upload time and skips empty or fully yanked releases", () => {
+    const versions = pypiVersions(
+      {
+        releases: {
+          "1.2.0": [
+            { upload_time_iso_8601: "2026-02-10T12:05:00Z" },
+            { upload_time_iso_8601: "2026-02-10T12:00:00Z" },
+          ],
+          "1.3.0rc1": [{ upload_time_iso_8601: "2026-02-12T08:00:00Z" }],
+          "1.1.0": [{ upload_time_iso_8601: "2026-01-01T00:00:00Z", yanked: true }],
+          "1.0.0": [],
+        },
+      },
+      "acme"
+    );
+
+    expect(versions.map((v) => v.version)).toEqual(["1.2.0", "1.3.0rc1"]);
+    expect(versions[0].publishedAt).toBe("2026-02-10T12:00:00Z");
+    expect(versions[0].url).toBe("https://pypi.org/project/acme/1.2.0/");
+    expect(versions[1].prerelease).toBe(true);
+  });
+});
+
+describe("registryVersionsToEntries", () => {
+  const versions = [
+    { version: "1.9.0", publishedAt: "2026-01-05T09:30:00Z", url: "https://x/1.9.0", prerelease: false },
+    { version: "1.10.0", publishedAt: "2026-02-10T12:00:00Z", url: "https://x/1.10.0", prerelease: false },
+    { version: "1.11.0-rc.1", url: "https://x/1.11.0-rc.1", prerelease: true },
+  ];
+
+  it("sorts by semver and drops prereleases by default", () => {
+    const entries = registryVersionsToEntries(versions);
+    expect(entries.map((e) => e.version)).toEqual(["1.10.0", "1.9.0"]);
+    expect(entries[0].changes).toBe(
+      "## 1.10.0\nPublished 2026-02-10 12:00 UTC\nhttps://x/1.10.0"
+    );
+  });
+
+  it("keeps prereleases when enabled", () => {
+    const entries = registryVersionsToEntries(versions, true);
+    expect(entries[0].version).toBe("1.11.0-rc.1");
+    expect(entries[0].changes).toBe("## 1.11.0-rc.1\nhttps://x/1.11.0-rc.1");
+  });
+});
+
 describe("getVersionsSince", () => {
   const testVersions: VersionEntry[] = [
     { version: "1.3.0", changes: "Third" },
@@ -326,74 +452,23 @@ describe("htmlToText", () => {
   });
 });
 
-describe("extractGeminiDate", () => {
-  it("extracts YYYY.MM.DD format", () => {
-    const html = "<p>Updated on 2025.01.15</p>";
-    expect(extractGeminiDate(html)).toBe("2025.01.15");
-  });
-
-  it("extracts first date when multiple present", () => {
-    const html = "2025.01.15 and 2025.01.10";
-    expect(extractGeminiDate(html)).toBe("2025.01.15");
-  });
-
-  it("returns null when no date found", () => {
-    const html = "<p>No date here</p>";
-    expect(extractGeminiDate(html)).toBeNull();
-  });
-
-  it("does not match invalid date formats", () => {
-    const html = "2025-01-15"; // Wrong separator
-    expect(extractGeminiDate(html)).toBeNull();
-  });
-});
-
-describe("extractMonthDayYearDate", () => {
-  it("extracts Month DD, YYYY format", () => {
-    const html = "<p>January 15, 2026</p>";
-    expect(extractMonthDayYearDate(html)).toBe("January 15, 2026");
-  });
-
-  it("handles single digit day", () => {
-    const html = "December 5, 2025";
-    expect(extractMonthDayYearDate(html)).toBe("December 5, 2025");
-  });
-
-  it("extracts first date when multiple present", () => {
-    const html = "January 15, 2026 and December 10, 2025";
-    expect(extractMonthDayYearDate(html)).toBe("January 15, 2026");
-  });
-
-  it("returns null when no date found", () => {
-    const html = "<p>No date here</p>";
-    expect(extractMonthDayYearDate(html)).toBeNull();
-  });
-
-  it("handles all months", () => {
-    const months = [
-      "January",
-      "February",
-      "March",
-      "April",
-      "May",
-      "June",
-      "July",
-      "August",
-      "September",
-      "October",
-      "November",
-      "December",
-    ];
-
-    for (const month of months) {
-      const html = `${month} 1, 2025`;
-      expect(extractMonthDayYearDate(html)).toBe(`${month} 1, 2025`);
-    }
+describe("htmlToMarkdown", () => {
+  it("converts headings, lists, bold and links", () => {
+    const html = `
+      <h3>Deep
+      Research</h3>
+      <p>Now <strong>faster</strong>, see <a href="https://example.com/docs">the docs</a>.</p>
+      <ul><li>Plus users</li><li>Pro users</li></ul>
+      <ol><li>Open a chat</li><li>Pick a model</li></ol>
+    `;
+    expect(htmlToMarkdown(html)).toBe(
+      "### Deep Research\n\nNow **faster**, see [the docs](https://example.com/docs).\n\n- Plus users\n- Pro users\n\n1. Open a chat\n2. Pick a model"
+    );
   });
 
-  it("does not match YYYY.MM.DD format", () => {
-    const html = "2025.01.15";
-    expect(extractMonthDayYearDate(html)).toBeNull();
+  it("keeps relative links as text and drops empty items", () => {
+    const html = `<p><a href="/settings">Settings</a></p><ul><li></li><li>One</li></ul>`;
+    expect(htmlToMarkdown(html)).toBe("Settings\n\n- One");
   });
 });
 
@@ -429,6 +504,55 @@ describe("parseMonthDayYearDate", () => {
   });
 });
 
+describe("parseYearMonthDayDate", () => {
+  it("parses dotted and dashed dates", () => {
+    expect(parseYearMonthDayDate("2026.01.12")).toEqual(new Date(2026, 0, 12));
+    expect(parseYearMonthDayDate("2026-02-03")).toEqual(new Date(2026, 1, 3));
+  });
+
+  it("returns null for other formats", () => {
+    expect(parseYearMonthDayDate("January 12, 2026")).toBeNull();
+  });
+});
+
+describe("getExtractionRules", () => {
+  const source = {
+    id: "notes",
+    name: "Notes",
+    url: "https://example.com",
+    parserType: "wayback" as const,
+    stateFile: "notes.json",
+    releasePageUrl: "https://example.com",
+  };
+
+  it("defaults to month-day-year date sections", () => {
+    const rules = getExtractionRules(source);
+    expect(rules.entryMode).toBe("date-sections");
+    expect(rules.datePattern.test("January 12, 2026")).toBe(true);
+    expect(rules.datePattern.test("2026.01.12")).toBe(false);
+    expect(rules.headingLevels).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(rules.linkPattern).toBeUndefined();
+  });
+
+  it("derives the date pattern from dateFormat", () => {
+    const rules = getExtractionRules({
+      ...source,
+      parserOptions: { dateFormat: "year-month-day" },
+    });
+    expect(rules.datePattern.test("2026.01.12")).toBe(true);
+    expect(rules.datePattern.test("2026-01-12")).toBe(true);
+  });
+
+  it("prefers an explicit datePattern and compiles linkPattern", () => {
+    const rules = getExtractionRules({
+      ...source,
+      parserOptions: { datePattern: "Q[1-4] \\d{4}", linkPattern: "/posts/" },
+    });
+    expect(rules.datePattern.test("Q1 2026")).toBe(true);
+    expect(rules.linkPattern!.test("https://x/posts/a")).toBe(true);
+  });
+});
+
 describe("isNewerIdentifier - human-readable dates", () => {
   it("correctly compares dates across months (February > January)", () => {
     expect(isNewerIdentifier("February 1, 2026", "January 30, 2026", "wayback")).toBe(true);
@@ -505,6 +629,47 @@ describe("extractDateEntries", () => {
     expect(entries).toHaveLength(1);
     expect(entries[0].title).toBe("Meet your new AI browsing assistant: Gemini in Chrome");
   });
+
+  it("keeps every paragraph of a section in its body", () => {
+    const html = `
+      <h2>January 17, 2026</h2>
+      <p>Voice mode</p>
+      <p>Available to
+      Plus users.</p>
+      <p>Update: now available to all users.</p>
+    `;
+    const entries = extractDateEntries(html, /January \d{1,2}, \d{4}/);
+    expect(entries[0].body).toBe(
+      "Voice mode\nAvailable to Plus users.\nUpdate: now available to all users."
+    );
+  });
+
+  it("keeps the rest of a section as markdown details", () => {
+    const html = `
+      <h2>January 17, 2026</h2>
+      <p><strong>Voice mode</strong></p>
+      <p>Available to Plus users.</p>
+      <h3>Rollout</h3>
+      <ul><li>Web</li><li>iOS</li></ul>
+      <h2>January 10, 2026</h2>
+      <p>Older update</p>
+    `;
+    const entries = extractDateEntries(html, /January \d{1,2}, \d{4}/);
+    expect(entries[0].title).toBe("Voice mode");
+    expect(entries[0].details).toBe("Available to Plus users.\n\n### Rollout\n\n- Web\n- iOS");
+    expect(entries[1].details).toBe("");
+  });
+
+  it("cuts long details at a line break", () => {
+    const html = `
+      <h2>2026.01.28</h2>
+      <p>Title</p>
+      <ul><li>${"a".repeat(20)}</li><li>${"b".repeat(20)}</li></ul>
+    `;
+    const [entry] = extractDateEntries(html, /\d{4}\.\d{2}\.\d{2}/, 30);
+    expect(entry.details).toBe(`- ${"a".repeat(20)}\n…`);
+    expect(extractDateEntries(html, /\d{4}\.\d{2}\.\d{2}/, 0)[0].details).toBe("");
+  });
 });
 
 describe("getNewDateEntries", () => {
@@ -685,6 +850,105 @@ describe("extractBlogPosts", () => {
   });
 });
 
+describe("extractBlogPosts with rules", () => {
+  const html = `
+    <h2>Listing</h2>
+    <h3>Post One</h3>
+    <p>2026.02.10</p>
+    <a href="/web/2026/https://vendor.example/about">About</a>
+    <a href="/web/2026/https://vendor.example/blog/post-one">Read</a>
+  `;
+
+  it("uses the configured date pattern and link pattern", () => {
+    const posts = extractBlogPosts(html, {
+      datePattern: /\d{4}\.\d{2}\.\d{2}/,
+      linkPattern: /\/blog\//,
+    });
+    expect(posts).toEqual([
+      { title: "Post One", date: "2026.02.10", url: "https://vendor.example/blog/post-one" },
+    ]);
+  });
+
+  it("only treats configured heading levels as titles", () => {
+    const posts = extractBlogPosts(html, {
+      datePattern: /\d{4}\.\d{2}\.\d{2}/,
+      headingLevels: [2],
+    });
+    expect(posts).toHaveLength(1);
+    expect(posts[0].title).toBe("Listing");
+  });
+
+  it("uses the first link when no link pattern is configured", () => {
+    const posts = extractBlogPosts(html, { datePattern: /\d{4}\.\d{2}\.\d{2}/ });
+    expect(posts[0].url).toBe("https://vendor.example/about");
+  });
+});
+
+describe("extractBlogPosts details", () => {
+  it("extracts excerpt, authors and categories from the listing", () => {
+    const html = `
+      <h3>Claude gets memory</h3>
+      <div class="post-meta">
+        <ul class="post-tags"><li>Product</li><li>Announcements</li></ul>
+        <span class="author">Jane Doe</span>
+      </div>
+      <p>January 28, 2026</p>
+      <p>Claude now remembers your projects &amp; preferences.</p>
+      <a href="/web/2026/https://claude.com/blog/claude-gets-memory">Read more</a>
+      <h3>Model Card update</h3>
+      <p>January 15, 2026</p>
+      <p>By Ann Lee and Joe Bloggs</p>
+      <a href="/web/2026/https://claude.com/category/research">Research</a>
+    `;
+    expect(extractBlogPosts(html)).toEqual([
+      {
+        title: "Claude gets memory",
+        date: "January 28, 2026",
+        url: "https://claude.com/blog/claude-gets-memory",
+        excerpt: "Claude now remembers your projects & preferences.",
+        authors: ["Jane Doe"],
+        categories: ["Product", "Announcements"],
+      },
+      {
+        title: "Model Card update",
+        date: "January 15, 2026",
+        url: "https://claude.com/category/research",
+        authors: ["Ann Lee", "Joe Bloggs"],
+        categories: ["Research"],
+      },
+    ]);
+  });
+
+  it("prefers an element marked as the excerpt", () => {
+    const html = `
+      <h3>Post</h3>
+      <p>Featured</p>
+      <div class="card-summary">The actual summary.</div>
+      <p>January 15, 2026</p>
+    `;
+    expect(extractBlogPosts(html)[0].excerpt).toBe("The actual summary.");
+  });
+});
+
+describe("extractLeadParagraph", () => {
+  it("takes the first paragraph of the article long enough to be prose", () => {
+    const html = `
+      <header><p>This paragraph is outside the article and long enough to count.</p></header>
+      <article>
+        <p>January 28, 2026</p>
+        <p>Claude can now remember your projects and preferences across chats.</p>
+      </article>
+    `;
+    expect(extractLeadParagraph(html)).toBe(
+      "Claude can now remember your projects and preferences across chats."
+    );
+  });
+
+  it("returns undefined when there is no such paragraph", () => {
+    expect(extractLeadParagraph("<main><p>Short</p></main>")).toBeUndefined();
+  });
+});
+
 describe("getNewBlogPosts", () => {
   const posts = [
     { title: "Post C", date: "February 10, 2026" },
@@ -757,3 +1021,117 @@ describe("getNewBlogPosts", () => {
     expect(result[1].title).toBe("New Post A");
   });
 });
+
+describe("extractFeedItems", () => {
+  it("extracts RSS items with guid, title, date, link and summary", () => {
+    const xml = `<?xml version="1.0"?>
+      <rss version="2.0"><channel>
+        <title>Vendor Releases</title>
+        <link>https://vendor.example/releases</link>
+        <item>
+          <title>Release 2.0</title>
+          <link>https://vendor.example/releases/2.0</link>
+          <guid isPermaLink="false">release-2.0</guid>
+          <pubDate>Tue, 10 Feb 2026 12:00:00 GMT</pubDate>
+          <description><![CDATA[<p>New <b>dashboard</b>.</p><p>Faster sync.</p>]]></description>
+        </item>
+        <item>
+          <title>Release 1.9 &amp; fixes</title>
+          <link>https://vendor.example/releases/1.9</link>
+          <guid>release-1.9</guid>
+          <pubDate>Mon, 02 Feb 2026 12:00:00 GMT</pubDate>
+          <description>&lt;p&gt;Bug fixes&lt;/p&gt;</description>
+        </item>
+      </channel></rss>`;
+
+    const items = extractFeedItems(xml);
+    expect(items).toHaveLength(2);
+    expect(items[0]).toEqual({
+      guid: "release-2.0",
+      title: "Release 2.0",
+      date: "Tue, 10 Feb 2026 12:00:00 GMT",
+      link: "https://vendor.example/releases/2.0",
+      summary: "New dashboard .\n\nFaster sync.",
+    });
+    expect(items[1].title).toBe("Release 1.9 & fixes");
+    expect(items[1].summary).toBe("Bug fixes");
+  });
+
+  it("extracts Atom entries using id and the alternate link", () => {
+    const xml = `<feed xmlns="http://www.w3.org/2005/Atom">
+        <title>Changelog</title>
+        <link rel="self" href="https://vendor.example/feed.atom"/>
+        <entry>
+          <id>tag:vendor.example,2026:42</id>
+          <title type="html">Model update</title>
+          <link rel="edit" href="https://vendor.example/api/42"/>
+          <link rel="alternate" href="https://vendor.example/changelog/42"/>
+          <updated>2026-02-10T12:00:00Z</updated>
+          <summary>Improved reasoning.</summary>
+        </entry>
+      </feed>`;
+
+    const items = extractFeedItems(xml);
+    expect(items).toHaveLength(1);
+    expect(items[0].guid).toBe("tag:vendor.example,2026:42");
+    expect(items[0].link).toBe("https://vendor.example/changelog/42");
+    expect(items[0].date).toBe("2026-02-10T12:00:00Z");
+    expect(items[0].summary).toBe("Improved reasoning.");
+  });
+
+  it("falls back to link as guid when no guid/id is present", () => {
+    const xml = `<rss><channel><item>
+        <title>Post</title><link>https://vendor.example/post</link>
+      </item></channel></rss>`;
+
+    expect(extractFeedItems(xml)[0].guid).toBe("https://vendor.example/post");
+  });
+
+  it("returns empty array for a document without items", () => {
+    expect(extractFeedItems("<html><p>Not a feed</p></html>")).toHaveLength(0);
+  });
+});
+
+describe("sortFeedItems", () => {
+  const item = (guid: string, date: string) => ({ guid, title: guid, date, summary: "" });
+
+  it("sorts newest first when all dates parse", () => {
+    const sorted = sortFeedItems([
+      item("a", "Mon, 02 Feb 2026 12:00:00 GMT"),
+      item("b", "2026-02-10T12:00:00Z"),
+    ]);
+    expect(sorted.map((i) => i.guid)).toEqual(["b", "a"]);
+  });
+
+  it("keeps feed order when a date is missing", () => {
+    const items = [item("a", ""), item("b", "2026-02-10T12:00:00Z")];
+    expect(sortFeedItems(items).map((i) => i.guid)).toEqual(["a", "b"]);
+  });
+});
+
+describe("getNewFeedItems", () => {
+  const items = [
+    { guid: "c", title: "C", date: "", summary: "" },
+    { guid: "b", title: "B", date: "", summary: "" },
+    { guid: "a", title: "A", date: "", summary: "" },
+  ];
+
+  it("returns only newest item on first run", () => {
+    const result = getNewFeedItems(items, null);
+    expect(result.map((i) => i.guid)).toEqual(["c"]);
+  });
+
+  it("returns every unseen item", () => {
+    const result = getNewFeedItems(items, ["a"]);
+    expect(result.map((i) => i.guid)).toEqual(["c", "b"]);
+  });
+
+  it("ignores reordering of already-seen items", () => {
+    const reordered = [items[2], items[0], items[1]];
+    expect(getNewFeedItems(reordered, ["a", "b", "c"])).toHaveLength(0);
+  });
+
+  it("returns empty for empty feed", () => {
+    expect(getNewFeedItems([], ["a"])).toHaveLength(0);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { classifyBullet, classifyChanges, headingCategory } from "../src/classify";
+
+describe("classifyBullet", () => {
+  it("classifies by the leading verb", () => {
+    expect(classifyBullet("- Added /memory command")).toBe("added");
+    expect(classifyBullet("- Fixed crash when resuming")).toBe("fixed");
+    expect(classifyBullet("- Improved startup time")).toBe("changed");
+    expect(classifyBullet("- Removed the legacy config file")).toBe("breaking");
+    expect(classifyBullet("- Windows: terminal bell")).toBe("other");
+  });
+
+  it("puts breaking, security and deprecation keywords first", () => {
+    expect(classifyBullet("- Added BREAKING change to hooks input", "added")).toBe("breaking");
+    expect(classifyBullet("- Fixed a security issue in bash permissions", "fixed")).toBe("security");
+    expect(classifyBullet("- Deprecated the --foo flag")).toBe("deprecated");
+  });
+
+  it("follows the sub-heading and conventional commit types", () => {
+    expect(classifyBullet("- Windows: terminal bell", "fixed")).toBe("fixed");
+    expect(classifyBullet("* feat(cli): output styles")).toBe("added");
+    expect(classifyBullet("* refactor!: new plugin API")).toBe("breaking");
+    expect(classifyBullet("- Memory leak regression in long sessions")).toBe("fixed");
+  });
+});
+
+describe("headingCategory", () => {
+  it("recognizes common sub-headings", () => {
+    expect(headingCategory("### Bug Fixes")).toBe("fixed");
+    expect(headingCategory("### Removed")).toBe("breaking");
+    expect(headingCategory("## ⚠ BREAKING CHANGES")).toBe("breaking");
+    expect(headingCategory("### SDK")).toBeUndefined();
+  });
+});
+
+describe("classifyChanges", () => {
+  it("groups bullets by category, breaking changes first", () => {
+    const markdown = [
+      "## 2.1.0",
+      "",
+      "- Added output styles",
+      "- Fixed crash on resize",
+      "  with a nested line",
+      "- Removed the legacy config file",
+      "- Windows: terminal bell",
+    ].join("\n");
+
+    expect(classifyChanges(markdown)).toEqual({
+      body: [
+        "## 2.1.0",
+        "### Breaking\n- Removed the legacy config file",
+        "### Added\n- Added output styles",
+        "### Fixed\n- Fixed crash on resize\n  with a nested line",
+        "### Other\n- Windows: terminal bell",
+      ].join("\n\n"),
+      categories: ["Breaking", "Added", "Fixed"],
+      uncategorized: true,
+    });
+  });
+
+  it("replaces known sub-headings and keeps text before the bullets", () => {
+    const markdown = "## [1.0.0]\nFirst stable release.\n### Fixed\n- Typos\n### Added\n- CLI";
+    expect(classifyChanges(markdown).body).toBe(
+      "## [1.0.0]\n\nFirst stable release.\n\n### Added\n- CLI\n\n### Fixed\n- Typos"
+    );
+  });
+
+  it("keeps the body of entries it can't regroup", () => {
+    const unknownHeading = "## v3.0.0\n## What's Changed\n* feat: plugins by @a in #1";
+    expect(classifyChanges(unknownHeading)).toEqual({
+      body: unknownHeading,
+      categories: ["Added"],
+      uncategorized: false,
+    });
+
+    const unclassified = "## 1.0.1\n- Windows: terminal bell";
+    expect(classifyChanges(unclassified)).toEqual({
+      body: unclassified,
+      categories: [],
+      uncategorized: true,
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, formatLineDiff } from "../src/diff";
+
+describe("diffLines", () => {
+  it("returns no changes for identical text", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual({ added: [], removed: [] });
+  });
+
+  it("finds appended lines", () => {
+    const before = "Voice mode\nAvailable to Plus users";
+    const after = "Voice mode\nAvailable to Plus users\nUpdate: now available to all users";
+
+    expect(diffLines(before, after)).toEqual({
+      added: ["Update: now available to all users"],
+      removed: [],
+    });
+  });
+
+  it("finds replaced and removed lines", () => {
+    const before = "## [1.2.0]\n- Added X\n- Fixed Y\n- Fixed Z";
+    const after = "## [1.2.0]\n- Added X (beta)\n- Fixed Z";
+
+    expect(diffLines(before, after)).toEqual({
+      added: ["- Added X (beta)"],
+      removed: ["- Added X", "- Fixed Y"],
+    });
+  });
+
+  it("ignores blank lines and indentation", () => {
+    expect(diffLines("a\n\n  b", "a\nb\n")).toEqual({ added: [], removed: [] });
+  });
+});
+
+describe("formatLineDiff", () => {
+  it("lists removals before additions", () => {
+    expect(formatLineDiff({ added: ["new"], removed: ["old"] })).toBe("- old\n+ new");
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import fs from "fs";
+import {
+  buildDigest,
+  collectForDigest,
+  digestTitle,
+  isDigestDue,
+  periodEnd,
+  readDigests,
+  writeDigests,
+} from "../src/digest";
+import { Change } from "../src/changelog";
+import { ReleaseSource, SourceRegistry } from "../src/config";
+
+vi.mock("fs");
+
+const mockClaudeSource: ReleaseSource = {
+  id: "claude-code",
+  name: "Claude Code",
+  url: "https://example.com/changelog.md",
+  parserType: "markdown",
+  stateFile: "claude-code.json",
+  releasePageUrl: "https://example.com/changelog",
+};
+
+const mockChatGPTSource: ReleaseSource = {
+  id: "chatgpt",
+  name: "ChatGPT",
+  url: "https://help.openai.com/chatgpt-release-notes",
+  parserType: "wayback",
+  stateFile: "chatgpt.json",
+  releasePageUrl: "https://help.openai.com/chatgpt-release-notes",
+};
+
+const registry: SourceRegistry = {
+  sources: {
+    "claude-code": mockClaudeSource,
+    chatgpt: mockChatGPTSource,
+  },
+  targets: { team: { webhookUrlEnv: "TEAM_WEBHOOK_URL", digest: "daily" } },
+  routes: [],
+  watchlist: [],
+  mute: [],
+};
+
+const newEntries: Change = {
+  kind: "new-entry",
+  version: "1.2.1",
+  formattedChanges: "## [1.2.1]\n- Fixed Y\n\n## [1.2.0]\n- Added X",
+  sections: ["## [1.2.0]\n- Added X", "## [1.2.1]\n- Fixed Y"],
+};
+const updated: Change = { kind: "entry-updated", version: "Updated: 1.1.0", formattedChanges: "+ Z" };
+const chatgptEntry: Change = { kind: "new-entry", version: "March 1, 2026", formattedChanges: "Memory" };
+
+const monday = new Date("2026-03-02T09:30:00.000Z");
+
+describe("periodEnd", () => {
+  it("ends daily digests at the next UTC midnight", () => {
+    expect(periodEnd("daily", monday).toISOString()).toBe("2026-03-03T00:00:00.000Z");
+  });
+
+  it("ends weekly digests at the next Monday", () => {
+    expect(periodEnd("weekly", monday).toISOString()).toBe("2026-03-09T00:00:00.000Z");
+    expect(periodEnd("weekly", new Date("2026-03-08T23:00:00.000Z")).toISOString()).toBe(
+      "2026-03-09T00:00:00.000Z"
+    );
+  });
+});
+
+describe("digestTitle", () => {
+  it("names the day or week", () => {
+    expect(digestTitle("daily", monday)).toBe("Daily digest, 2026-03-02");
+    expect(digestTitle("weekly", new Date("2026-03-05T12:00:00.000Z"))).toBe(
+      "Weekly digest, 2026-03-02 to 2026-03-08"
+    );
+  });
+});
+
+describe("collectForDigest", () => {
+  it("starts a digest with the first change and appends later ones", () => {
+    let store = collectForDigest({}, "team", "claude-code", newEntries, monday);
+    store = collectForDigest(store, "team", "chatgpt", chatgptEntry, new Date("2026-03-02T15:00:00.000Z"));
+
+    expect(store.team.since).toBe(monday.toISOString());
+    expect(store.team.items.map((i) => i.sourceId)).toEqual(["claude-code", "chatgpt"]);
+  });
+});
+
+describe("isDigestDue", () => {
+  const pending = collectForDigest({}, "team", "claude-code", newEntries, monday).team;
+
+  it("waits until the period is over", () => {
+    expect(isDigestDue(pending, "daily", new Date("2026-03-02T23:59:00.000Z"))).toBe(false);
+    expect(isDigestDue(pending, "daily", new Date("2026-03-03T00:00:00.000Z"))).toBe(true);
+    expect(isDigestDue(pending, "weekly", new Date("2026-03-03T00:00:00.000Z"))).toBe(false);
+  });
+});
+
+describe("buildDigest", () => {
+  it("groups entries by source with counts and links", () => {
+    let store = collectForDigest({}, "team", "claude-code", newEntries, monday);
+    store = collectForDigest(store, "team", "chatgpt", chatgptEntry, monday);
+    store = collectForDigest(store, "team", "claude-code", updated, monday);
+
+    const digest = buildDigest(registry, store.team, "daily");
+
+    expect(digest.kind).toBe("digest");
+    expect(digest.version).toBe("Daily digest, 2026-03-02");
+    expect(digest.sections).toEqual([
+      "### Claude Code (3 changes)\n- [1.2.0]\n- [1.2.1]\n- Updated: 1.1.0\nhttps://example.com/changelog",
+      "### ChatGPT (1 change)\n- March 1, 2026\nhttps://help.openai.com/chatgpt-release-notes",
+    ]);
+    expect(digest.formattedChanges).toBe(digest.sections!.join("\n\n---\n\n"));
+  });
+
+  it("falls back to the id of a source that was removed", () => {
+    const pending = collectForDigest({}, "team", "gemini", chatgptEntry, monday).team;
+
+    expect(buildDigest(registry, pending, "daily").sections).toEqual(["### gemini (1 change)\n- March 1, 2026"]);
+  });
+});
+
+describe("readDigests / writeDigests", () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it("returns an empty store without a file", () => {
+    vi.mocked(fs.readFileSync).mockImplementation(() => {
+      throw new Error("ENOENT");
+    });
+
+    expect(readDigests()).toEqual({});
+  });
+
+  it("writes the store as JSON", () => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    const store = collectForDigest({}, "team", "chatgpt", chatgptEntry, monday);
+
+    writeDigests(store);
+
+    expect(fs.writeFileSync).toHaveBeenCalledWith(expect.stringContaining("digest.json"), JSON.stringify(store));
+  });
+});
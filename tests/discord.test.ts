@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { buildDiscordMessage, sendDiscordNotification } from "../src/discord";
+import { SlackPayload } from "../src/slack";
+
+vi.mock("../src/logger", () => ({
+  info: vi.fn(),
+  success: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+const testPayload: SlackPayload = {
+  source: "Claude Code",
+  version: "1.2.3",
+  changes: "## [1.2.3]\n- New features added",
+  test: "no",
+};
+
+describe("buildDiscordMessage", () => {
+  it("puts the changes in an embed linked to the release notes", () => {
+    expect(buildDiscordMessage(testPayload, "https://example.com/changelog")).toEqual({
+      embeds: [
+        {
+          title: "Claude Code 1.2.3",
+          description: "## [1.2.3]\n- New features added",
+          url: "https://example.com/changelog",
+        },
+      ],
+    });
+  });
+
+  it("marks test notifications and keeps the title within limits", () => {
+    const message = buildDiscordMessage({ ...testPayload, version: "x".repeat(300), test: "yes" });
+
+    expect(message.embeds[0].title.length).toBe(256);
+    expect(message.embeds[0].footer).toEqual({ text: "Test notification" });
+    expect(message.embeds[0].url).toBeUndefined();
+  });
+});
+
+describe("sendDiscordNotification", () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("returns error for empty webhook URL", async () => {
+    const result = await sendDiscordNotification("", testPayload);
+    expect(result).toEqual({ success: false, error: "No webhook URL configured" });
+  });
+
+  it("posts the embed and reports success for 204 responses", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 204 });
+
+    const result = await sendDiscordNotification("https://discord.com/api/webhooks/1/x", testPayload);
+
+    expect(result.success).toBe(true);
+    const body = JSON.parse((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body);
+    expect(body).toEqual(buildDiscordMessage(testPayload));
+  });
+
+  it("splits long change sets into numbered messages", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 204 });
+    const changes = ["## [1.1.0]\n- A", "## [1.2.0]\n- B"].join("\n\n---\n\n");
+
+    await sendDiscordNotification(
+      "https://discord.com/api/webhooks/1/x",
+      { ...testPayload, version: "1.1.0 → 1.2.0", changes },
+      { maxLength: 20 }
+    );
+
+    const titles = (global.fetch as ReturnType<typeof vi.fn>).mock.calls.map(
+      (c) => JSON.parse(c[1].body).embeds[0].title
+    );
+    expect(titles).toEqual(["Claude Code 1.1.0 → 1.2.0 (1/2)", "Claude Code 1.1.0 → 1.2.0 (2/2)"]);
+  });
+
+  it("returns the error of a rejected message", async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 400,
+      text: () => Promise.resolve('{"message": "Invalid Form Body"}'),
+    });
+
+    const result = await sendDiscordNotification("https://discord.com/api/webhooks/1/x", testPayload);
+
+    expect(result).toEqual({ success: false, error: '400: {"message": "Invalid Form Body"}' });
+  });
+});
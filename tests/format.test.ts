@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { formatEntries } from "../src/format";
+import { ReleaseSource } from "../src/config";
+
+const source: ReleaseSource = {
+  id: "example",
+  name: "Example",
+  url: "https://example.com/notes",
+  parserType: "wayback",
+  stateFile: "example.json",
+  releasePageUrl: "https://example.com/notes",
+};
+
+describe("formatEntries", () => {
+  it("separates changelog entries with ---", () => {
+    expect(
+      formatEntries(source, "changelog", [
+        { id: "1.1.0", title: "1.1.0", version: "1.1.0", body: "## 1.1.0\n- A" },
+        { id: "1.2.0", title: "1.2.0", version: "1.2.0", body: "## 1.2.0\n- B" },
+      ])
+    ).toEqual({
+      formattedChanges: "## 1.1.0\n- A\n\n---\n\n## 1.2.0\n- B",
+      sections: ["## 1.1.0\n- A", "## 1.2.0\n- B"],
+    });
+  });
+
+  it("lists dated entries with their text and the release notes link once", () => {
+    expect(
+      formatEntries(source, "dated", [
+        { id: "January 10, 2026", title: "Memory", date: "January 10, 2026", body: "- Details" },
+        { id: "snapshot", title: "Example release notes updated." },
+      ])
+    ).toEqual({
+      formattedChanges:
+        "Memory (January 10, 2026)\n- Details\n\n---\n\nExample release notes updated.\n\nhttps://example.com/notes",
+      sections: ["Memory (January 10, 2026)\n- Details", "Example release notes updated."],
+    });
+  });
+
+  it("links each post, falling back to the release page", () => {
+    expect(
+      formatEntries(source, "posts", [
+        { id: "A", title: "A", date: "May 1, 2026", url: "https://example.com/a" },
+        { id: "B", title: "B", date: "May 2, 2026" },
+      ]).formattedChanges
+    ).toBe("A (May 1, 2026): https://example.com/a\n\nB (May 2, 2026): https://example.com/notes");
+  });
+
+  it("adds authors, categories and excerpt to posts", () => {
+    expect(
+      formatEntries(source, "posts", [
+        {
+          id: "A",
+          title: "A",
+          date: "May 1, 2026",
+          url: "https://example.com/a",
+          body: "Summary.",
+          authors: ["Jane Doe", "Ann Lee"],
+          categories: ["News"],
+        },
+      ]).formattedChanges
+    ).toBe("A (May 1, 2026): https://example.com/a\nBy Jane Doe, Ann Lee · News\nSummary.");
+  });
+
+  it("shortens feed summaries", () => {
+    const [section] = formatEntries(source, "feed", [
+      { id: "1", title: "Post", body: "x".repeat(400), url: "https://example.com/1" },
+    ]).sections;
+
+    expect(section).toBe(`Post\n${"x".repeat(279)}…\nhttps://example.com/1`);
+  });
+});
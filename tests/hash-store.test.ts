@@ -1,6 +1,19 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import fs from "fs";
-import { ensureDataDir, readStoredData, writeStoredData } from "../src/hash-store";
+import {
+  ensureDataDir,
+  findEditedEntries,
+  findRetractedEntries,
+  getSeenIds,
+  hashContent,
+  HISTORY_LIMIT,
+  readStoredData,
+  recordEntries,
+  recordWatchMatches,
+  SeenEntry,
+  snapshotTime,
+  writeStoredData,
+} from "../src/hash-store";
 import { ReleaseSource } from "../src/config";
 
 // Mock fs module
@@ -63,6 +76,21 @@ describe("readStoredData", () => {
     expect(result).toEqual({ identifier: "1.2.3" });
   });
 
+  it("migrates feed seenIds into entry history", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({ identifier: "g-2", seenIds: ["g-2", "g-1"] })
+    );
+
+    const result = readStoredData(mockSource);
+    expect(result).toEqual({
+      identifier: "g-2",
+      entries: [
+        { id: "g-2", title: "g-2", hash: "", firstSeenAt: "" },
+        { id: "g-1", title: "g-1", hash: "", firstSeenAt: "" },
+      ],
+    });
+  });
+
   it("returns null for invalid JSON", () => {
     vi.mocked(fs.readFileSync).mockReturnValue("not valid json");
 
@@ -105,3 +133,235 @@ describe("writeStoredData", () => {
     expect(fs.mkdirSync).toHaveBeenCalled();
   });
 });
+
+describe("hashContent", () => {
+  it("ignores whitespace differences", () => {
+    expect(hashContent("- Fixed  a bug\n")).toBe(hashContent("- Fixed a bug"));
+    expect(hashContent("- Fixed a bug")).not.toBe(hashContent("- Fixed two bugs"));
+  });
+});
+
+describe("getSeenIds", () => {
+  it("returns null without history", () => {
+    expect(getSeenIds(null)).toBeNull();
+    expect(getSeenIds({ identifier: "1.0.0" })).toBeNull();
+    expect(getSeenIds({ identifier: "1.0.0", entries: [] })).toBeNull();
+  });
+
+  it("returns the ids of remembered entries", () => {
+    const entries = [{ id: "1.0.0", title: "1.0.0", hash: "", firstSeenAt: "" }];
+    expect(getSeenIds({ entries })).toEqual(new Set(["1.0.0"]));
+  });
+});
+
+describe("snapshotTime", () => {
+  it("converts Wayback timestamps to ISO times", () => {
+    expect(snapshotTime("20260115123456")).toBe("2026-01-15T12:34:56.000Z");
+    expect(snapshotTime("2026")).toBeNull();
+  });
+});
+
+describe("recordEntries", () => {
+  const earlier = "2026-01-01T00:00:00.000Z";
+  const now = "2026-02-01T00:00:00.000Z";
+  const history: SeenEntry[] = [
+    { id: "1.1.0", title: "1.1.0", hash: "old", firstSeenAt: earlier, notifiedAt: earlier },
+    { id: "1.0.0", title: "1.0.0", hash: "old", firstSeenAt: earlier },
+  ];
+
+  it("keeps first-seen and notified times of known entries", () => {
+    const merged = recordEntries(
+      history,
+      [{ id: "1.1.0", title: "1.1.0", content: "- Fix" }],
+      new Set(),
+      now
+    );
+
+    expect(merged[0]).toEqual({
+      id: "1.1.0",
+      title: "1.1.0",
+      hash: hashContent("- Fix"),
+      firstSeenAt: earlier,
+      notifiedAt: earlier,
+      body: "- Fix",
+    });
+  });
+
+  it("adds new entries first and marks announced ones", () => {
+    const merged = recordEntries(
+      history,
+      [
+        { id: "1.3.0", title: "1.3.0", content: "c" },
+        { id: "1.2.0", title: "1.2.0", date: "2026-01-30", content: "b" },
+        { id: "1.1.0", title: "1.1.0", content: "a" },
+      ],
+      new Set(["1.3.0"]),
+      now
+    );
+
+    expect(merged.map((e) => e.id)).toEqual(["1.3.0", "1.2.0", "1.1.0", "1.0.0"]);
+    expect(merged[0].notifiedAt).toBe(now);
+    expect(merged[1].notifiedAt).toBeUndefined();
+    expect(merged[1].date).toBe("2026-01-30");
+    expect(merged[3]).toBe(history[1]); // Off the page, kept untouched
+  });
+
+  it("stores bodies of announced entries only", () => {
+    const current = [
+      { id: "1.2.0", title: "1.2.0", content: "- New" },
+      { id: "1.1.0", title: "1.1.0", content: "- Fix" },
+    ];
+
+    const merged = recordEntries(history, current, new Set(["1.2.0"]), now);
+    expect(merged.map((e) => e.body)).toEqual(["- New", "- Fix", undefined]);
+
+    const unannounced = recordEntries([], current, new Set(), now);
+    expect(unannounced.every((e) => e.body === undefined)).toBe(true);
+  });
+
+  it("counts checks an entry is missing from within the page", () => {
+    const page = (...ids: string[]) => ids.map((id) => ({ id, title: id, content: id }));
+    const three = recordEntries([], page("3", "2", "1"), new Set(), earlier);
+
+    const once = recordEntries(three, page("3", "1"), new Set(), now);
+    expect(once.map((e) => [e.id, e.missingChecks])).toEqual([
+      ["3", undefined],
+      ["2", 1],
+      ["1", undefined],
+    ]);
+
+    const twice = recordEntries(once, page("3", "1"), new Set(), now);
+    expect(twice[1].missingChecks).toBe(2);
+
+    // Back on the page: the count starts over
+    expect(recordEntries(twice, page("3", "2", "1"), new Set(), now)[1].missingChecks).toBeUndefined();
+  });
+
+  it("does not count entries first seen after the page was captured", () => {
+    const page = (...ids: string[]) => ids.map((id) => ({ id, title: id, content: id }));
+    const history = recordEntries(recordEntries([], page("1"), new Set(), earlier), page("2", "1"), new Set(), now);
+
+    // A snapshot taken between the two checks only shows "1"
+    const merged = recordEntries(history, page("1"), new Set(), now, "2026-01-15T00:00:00.000Z");
+
+    expect(merged.map((e) => [e.id, e.missingChecks])).toEqual([
+      ["2", undefined],
+      ["1", undefined],
+    ]);
+  });
+
+  it("does not count entries that scrolled off the bottom", () => {
+    const page = (...ids: string[]) => ids.map((id) => ({ id, title: id, content: id }));
+    const history = recordEntries([], page("2", "1"), new Set(), earlier);
+
+    const merged = recordEntries(history, page("3", "2"), new Set(), now);
+
+    expect(merged.map((e) => [e.id, e.missingChecks])).toEqual([
+      ["3", undefined],
+      ["2", undefined],
+      ["1", undefined],
+    ]);
+  });
+
+  it("counts a removed newest entry", () => {
+    const page = (...ids: string[]) => ids.map((id) => ({ id, title: id, content: id }));
+    const history = recordEntries([], page("2", "1"), new Set(), earlier);
+
+    const merged = recordEntries(history, page("1"), new Set(), now);
+
+    expect(merged.map((e) => [e.id, e.missingChecks])).toEqual([
+      ["2", 1],
+      ["1", undefined],
+    ]);
+  });
+
+  it("caps history at HISTORY_LIMIT", () => {
+    const current = Array.from({ length: HISTORY_LIMIT + 10 }, (_, i) => ({
+      id: `e-${i}`,
+      title: `e-${i}`,
+      content: "",
+    }));
+
+    const merged = recordEntries(history, current, new Set(), now);
+
+    expect(merged).toHaveLength(HISTORY_LIMIT);
+    expect(merged[0].id).toBe("e-0");
+  });
+});
+
+describe("findEditedEntries", () => {
+  const announced: SeenEntry = {
+    id: "1.2.0",
+    title: "1.2.0",
+    hash: hashContent("- Added X"),
+    firstSeenAt: "2026-01-01T00:00:00.000Z",
+    notifiedAt: "2026-01-01T00:00:00.000Z",
+    body: "- Added X",
+  };
+
+  it("finds announced entries whose content changed", () => {
+    const current = { id: "1.2.0", title: "1.2.0", content: "- Added X\n- Fixed Y" };
+
+    expect(findEditedEntries([announced], [current])).toEqual([
+      { previous: announced, current },
+    ]);
+  });
+
+  it("ignores unchanged, unannounced and body-less entries", () => {
+    const edited = { id: "1.2.0", title: "1.2.0", content: "- Added Y" };
+
+    expect(
+      findEditedEntries([announced], [{ ...edited, content: "- Added  X" }])
+    ).toEqual([]);
+    expect(
+      findEditedEntries([{ ...announced, notifiedAt: undefined }], [edited])
+    ).toEqual([]);
+    expect(findEditedEntries([{ ...announced, body: undefined }], [edited])).toEqual([]);
+  });
+});
+
+describe("recordWatchMatches", () => {
+  const seen = (id: string, watchMatches?: string[]): SeenEntry => ({
+    id,
+    title: id,
+    hash: "h",
+    firstSeenAt: "2026-01-01T00:00:00.000Z",
+    ...(watchMatches && { watchMatches }),
+  });
+
+  it("adds new terms to those found before", () => {
+    const history = [seen("2.0.0"), seen("1.0.0", ["MCP"]), seen("0.9.0", ["SSO"])];
+    const matches = new Map([["2.0.0", ["hooks"]], ["1.0.0", ["MCP", "SSO"]]]);
+
+    expect(recordWatchMatches(history, matches)).toEqual([
+      seen("2.0.0", ["hooks"]),
+      seen("1.0.0", ["MCP", "SSO"]),
+      seen("0.9.0", ["SSO"]),
+    ]);
+  });
+
+  it("keeps the terms when the entry is recorded again", () => {
+    const [entry] = recordEntries(
+      [seen("1.0.0", ["MCP"])],
+      [{ id: "1.0.0", title: "1.0.0", content: "x" }],
+      new Set(),
+      "2026-01-02T00:00:00.000Z"
+    );
+    expect(entry.watchMatches).toEqual(["MCP"]);
+  });
+});
+
+describe("findRetractedEntries", () => {
+  const entry: SeenEntry = { id: "1.2.0", title: "1.2.0", hash: "", firstSeenAt: "" };
+
+  it("returns entries missing for at least the threshold", () => {
+    expect(findRetractedEntries([{ ...entry, missingChecks: 2 }], 3)).toEqual([]);
+    expect(findRetractedEntries([{ ...entry, missingChecks: 3 }], 3)).toHaveLength(1);
+  });
+
+  it("skips entries already reported", () => {
+    expect(
+      findRetractedEntries([{ ...entry, missingChecks: 5, retractedAt: "2026-01-01T00:00:00.000Z" }], 3)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import {
+  collectHistory,
+  formatHistoryMarkdown,
+  formatHistoryText,
+  parseHistoryArgs,
+} from "../src/history";
+import { ReleaseSource, SourceRegistry } from "../src/config";
+import { StoredData } from "../src/hash-store";
+
+const mockClaudeSource: ReleaseSource = {
+  id: "claude-code",
+  name: "Claude Code",
+  url: "https://example.com/changelog.md",
+  parserType: "markdown",
+  stateFile: "claude-code.json",
+  releasePageUrl: "https://example.com/changelog",
+};
+
+const mockGeminiSource: ReleaseSource = {
+  id: "gemini",
+  name: "Gemini",
+  url: "https://gemini.google/release-notes/",
+  parserType: "wayback",
+  stateFile: "gemini.json",
+  releasePageUrl: "https://gemini.google/release-notes/",
+};
+
+const registry: SourceRegistry = {
+  sources: { "claude-code": mockClaudeSource, gemini: mockGeminiSource },
+  targets: {},
+  routes: [],
+  watchlist: [],
+  mute: [],
+};
+
+const claudeState: StoredData = {
+  identifier: "1.2.0",
+  entries: [
+    {
+      id: "1.2.0",
+      title: "1.2.0",
+      hash: "",
+      firstSeenAt: "2026-02-01T09:00:00.000Z",
+      notifiedAt: "2026-02-01T09:00:00.000Z",
+      body: "## [1.2.0]\n- Added hooks for tool calls\n- Fixed bug Y",
+      watchMatches: ["hooks"],
+    },
+    {
+      id: "1.1.0",
+      title: "1.1.0",
+      hash: "",
+      firstSeenAt: "2026-01-10T09:00:00.000Z",
+      notifiedAt: "2026-01-10T09:00:00.000Z",
+      body: "## [1.1.0]\n- Added MCP servers",
+    },
+    { id: "1.0.0", title: "1.0.0", hash: "", firstSeenAt: "2026-01-10T09:00:00.000Z" },
+    {
+      id: "0.9.0",
+      title: "0.9.0",
+      hash: "",
+      firstSeenAt: "2026-01-05T09:00:00.000Z",
+      mutedAt: "2026-01-05T09:00:00.000Z",
+    },
+  ],
+};
+
+const geminiState: StoredData = {
+  entries: [
+    {
+      id: "2026.01.20",
+      title: "Gemini 3 in the API",
+      date: "2026.01.20",
+      hash: "",
+      firstSeenAt: "2026-01-20T12:00:00.000Z",
+      notifiedAt: "2026-01-20T12:00:00.000Z",
+      retractedAt: "2026-01-25T12:00:00.000Z",
+    },
+  ],
+};
+
+const states: [ReleaseSource, StoredData | null][] = [
+  [mockClaudeSource, claudeState],
+  [mockGeminiSource, geminiState],
+];
+
+describe("parseHistoryArgs", () => {
+  it("defaults to every source as text", () => {
+    expect(parseHistoryArgs([], registry)).toEqual({
+      success: true,
+      query: { sources: [] },
+      format: "text",
+    });
+  });
+
+  it("reads sources, dates, search and format", () => {
+    const parsed = parseHistoryArgs(
+      ["claude-code", "--since", "2026-01-01", "--until=2026-01-31", "--search", "hooks", "--json"],
+      registry
+    );
+    expect(parsed).toEqual({
+      success: true,
+      query: {
+        sources: ["claude-code"],
+        since: "2026-01-01T00:00:00.000Z",
+        until: "2026-02-01T00:00:00.000Z", // The whole last day
+        search: "hooks",
+      },
+      format: "json",
+    });
+    expect(parseHistoryArgs(["--markdown"], registry).format).toBe("markdown");
+  });
+
+  it("rejects unknown sources, options and invalid values", () => {
+    expect(parseHistoryArgs(["chatgpt"], registry)).toEqual({
+      success: false,
+      error: "Unknown source: chatgpt",
+    });
+    expect(parseHistoryArgs(["constructor"], registry).error).toBe("Unknown source: constructor");
+    expect(parseHistoryArgs(["--verbose"], registry).error).toBe("Unknown option: --verbose");
+    expect(parseHistoryArgs(["--since", "last week"], registry).error).toMatch(/--since needs a date/);
+    expect(parseHistoryArgs(["--until"], registry).error).toMatch(/--until needs a date/);
+    expect(parseHistoryArgs(["--search", " "], registry).error).toMatch(/--search needs a text/);
+  });
+});
+
+describe("collectHistory", () => {
+  it("lists announced entries, most recent first", () => {
+    const entries = collectHistory(states, { sources: [] });
+
+    expect(entries.map((e) => [e.sourceId, e.id])).toEqual([
+      ["claude-code", "1.2.0"],
+      ["gemini", "2026.01.20"],
+      ["claude-code", "1.1.0"],
+    ]);
+    expect(entries[0]).toEqual({
+      sourceId: "claude-code",
+      sourceName: "Claude Code",
+      id: "1.2.0",
+      title: "1.2.0",
+      announcedAt: "2026-02-01T09:00:00.000Z",
+      watchMatches: ["hooks"],
+      body: "## [1.2.0]\n- Added hooks for tool calls\n- Fixed bug Y",
+    });
+  });
+
+  it("filters by source and announcement time", () => {
+    expect(collectHistory(states, { sources: ["gemini"] }).map((e) => e.id)).toEqual(["2026.01.20"]);
+    expect(
+      collectHistory(states, {
+        sources: [],
+        since: "2026-01-15T00:00:00.000Z",
+        until: "2026-02-01T00:00:00.000Z",
+      }).map((e) => e.id)
+    ).toEqual(["2026.01.20"]);
+  });
+
+  it("finds entries containing every search word in the title or text", () => {
+    expect(collectHistory(states, { sources: [], search: "added MCP" }).map((e) => e.id)).toEqual([
+      "1.1.0",
+    ]);
+    expect(collectHistory(states, { sources: [], search: "gemini api" }).map((e) => e.id)).toEqual([
+      "2026.01.20",
+    ]);
+    expect(collectHistory(states, { sources: [], search: "MCP hooks" })).toEqual([]);
+  });
+
+  it("skips sources without state", () => {
+    expect(collectHistory([[mockGeminiSource, null]], { sources: [] })).toEqual([]);
+  });
+});
+
+describe("formatHistoryText", () => {
+  it("prints one line per entry", () => {
+    expect(formatHistoryText(collectHistory(states, { sources: [] })).split("\n")).toEqual([
+      "2026-02-01 09:00  claude-code  1.2.0",
+      "2026-01-20 12:00  gemini       Gemini 3 in the API (2026.01.20) [retracted]",
+      "2026-01-10 09:00  claude-code  1.1.0",
+    ]);
+  });
+
+  it("shows the line that matched a search", () => {
+    const entries = collectHistory(states, { sources: [], search: "hooks" });
+    expect(formatHistoryText(entries, "hooks")).toBe(
+      "2026-02-01 09:00  claude-code  1.2.0\n    - Added hooks for tool calls"
+    );
+  });
+
+  it("says when nothing was found", () => {
+    expect(formatHistoryText([])).toBe("No announcements found");
+  });
+});
+
+describe("formatHistoryMarkdown", () => {
+  it("groups entries by source with their text", () => {
+    const entries = collectHistory(states, { sources: [] });
+    expect(formatHistoryMarkdown(entries)).toBe(
+      [
+        "## Claude Code",
+        "### 1.2.0",
+        "_Announced 2026-02-01 09:00 UTC_",
+        "#### [1.2.0]\n- Added hooks for tool calls\n- Fixed bug Y",
+        "### 1.1.0",
+        "_Announced 2026-01-10 09:00 UTC_",
+        "#### [1.1.0]\n- Added MCP servers",
+        "## Gemini",
+        "### Gemini 3 in the API (2026.01.20) [retracted]",
+        "_Announced 2026-01-20 12:00 UTC_",
+      ].join("\n\n")
+    );
+  });
+});
@@ -1,10 +1,16 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
+import http from "http";
+import { AddressInfo } from "net";
 import { checkSource } from "../src/changelog";
 import { ReleaseSource } from "../src/config";
 import * as hashStore from "../src/hash-store";
 
-// Mock dependencies
-vi.mock("../src/hash-store");
+// Mock state file I/O; keep the pure history helpers real
+vi.mock("../src/hash-store", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/hash-store")>()),
+  readStoredData: vi.fn(),
+  writeStoredData: vi.fn(),
+}));
 vi.mock("../src/logger", () => ({
   info: vi.fn(),
   success: vi.fn(),
@@ -29,6 +35,7 @@ const mockGeminiSource: ReleaseSource = {
   parserType: "wayback",
   stateFile: "gemini.json",
   releasePageUrl: "https://gemini.google/release-notes/",
+  parserOptions: { dateFormat: "year-month-day" },
 };
 
 const mockChatGPTSource: ReleaseSource = {
@@ -47,8 +54,39 @@ const mockClaudeBlogSource: ReleaseSource = {
   parserType: "wayback",
   stateFile: "claude-blog.json",
   releasePageUrl: "https://claude.com/blog",
+  parserOptions: {
+    entryMode: "heading-posts",
+    linkPattern: "claude\\.com/blog/[a-z0-9]",
+  },
+};
+
+const mockFeedSource: ReleaseSource = {
+  id: "vendor-feed",
+  name: "Vendor",
+  url: "https://vendor.example/releases.xml",
+  parserType: "feed",
+  stateFile: "vendor-feed.json",
+  releasePageUrl: "https://vendor.example/releases",
 };
 
+// History entries for the given ids, as a state file would hold them
+function historyOf(...ids: string[]): hashStore.SeenEntry[] {
+  return ids.map((id) => ({
+    id,
+    title: id,
+    hash: "",
+    firstSeenAt: "2026-01-01T00:00:00.000Z",
+  }));
+}
+
+// State is written after every check. "Nothing announced" means the stored
+// identifier is unchanged and no entry was marked as notified.
+function expectNothingAnnounced(identifier: string) {
+  const [, data] = vi.mocked(hashStore.writeStoredData).mock.calls[0];
+  expect(data.identifier).toBe(identifier);
+  expect(data.entries!.some((e) => e.notifiedAt)).toBe(false);
+}
+
 describe("checkSource integration", () => {
   const originalFetch = global.fetch;
   let mockFetch: ReturnType<typeof vi.fn>;
@@ -89,9 +127,9 @@ describe("checkSource integration", () => {
       expect(result.hasChanged).toBe(true);
       expect(result.version).toBe("1.2.0");
       expect(result.formattedChanges).toContain("Added feature X");
-      expect(hashStore.writeStoredData).toHaveBeenCalledWith(mockClaudeSource, {
+      expect(hashStore.writeStoredData).toHaveBeenCalledWith(mockClaudeSource, expect.objectContaining({
         identifier: "1.2.0",
-      });
+      }));
     });
 
     it("skips state save when skipSave is true", async () => {
@@ -109,6 +147,60 @@ describe("checkSource integration", () => {
       expect(hashStore.writeStoredData).not.toHaveBeenCalled();
     });
 
+    it("records entries found on a dry run without marking them announced", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "1.1.0" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(sampleChangelog),
+      });
+
+      const result = await checkSource(mockClaudeSource, { dryRun: true });
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.version).toBe("1.2.0");
+      const saved = vi.mocked(hashStore.writeStoredData).mock.calls[0][1];
+      expect(saved.identifier).toBe("1.2.0");
+      const entry = saved.entries!.find((e) => e.id === "1.2.0")!;
+      expect(entry.firstSeenAt).toBeDefined();
+      expect(entry.notifiedAt).toBeUndefined();
+      expect(entry.body).toBeUndefined();
+    });
+
+    it("hands the changes over before saving the state that marks them announced", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "1.1.0" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(sampleChangelog),
+      });
+      const beforeSave = vi.fn(() => {
+        expect(hashStore.writeStoredData).not.toHaveBeenCalled();
+      });
+
+      const result = await checkSource(mockClaudeSource, { beforeSave });
+
+      expect(beforeSave).toHaveBeenCalledWith(result.changes);
+      expect(hashStore.writeStoredData).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not mark entries announced when handing over the changes fails", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "1.1.0" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(sampleChangelog),
+      });
+
+      const result = await checkSource(mockClaudeSource, {
+        beforeSave: () => {
+          throw new Error("ENOSPC: no space left on device");
+        },
+      });
+
+      expect(result.error).toBe("ENOSPC: no space left on device");
+      const saved = vi.mocked(hashStore.writeStoredData).mock.calls[0][1];
+      expect(saved.identifier).toBe("1.1.0");
+      expect(saved.entries).toBeUndefined();
+    });
+
     it("detects single version change", async () => {
       vi.mocked(hashStore.readStoredData).mockReturnValue({
         identifier: "1.1.0",
@@ -127,6 +219,75 @@ describe("checkSource integration", () => {
       expect(result.formattedChanges).not.toContain("Initial release");
     });
 
+    it("marks changes mentioning watched terms as priority and remembers the terms", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "1.0.0" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(sampleChangelog),
+      });
+
+      const result = await checkSource(
+        { ...mockClaudeSource, watchlist: ["bug"] },
+        { watchlist: ["/feature X/"] }
+      );
+
+      expect(result.priority).toBe(true);
+      expect(result.changes![0].watchMatches).toEqual(["/feature X/", "bug"]);
+      expect(result.formattedChanges).toContain("- Added **feature X**\n\n### Fixed\n- Fixed **bug** Y");
+      const saved = vi.mocked(hashStore.writeStoredData).mock.calls[0][1].entries!;
+      expect(saved.find((e) => e.id === "1.2.0")!.watchMatches).toEqual(["/feature X/", "bug"]);
+      expect(saved.find((e) => e.id === "1.1.0")!.watchMatches).toBeUndefined();
+    });
+
+    it("records muted entries as seen without announcing them", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "1.0.0" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(sampleChangelog),
+      });
+
+      const result = await checkSource(mockClaudeSource, {
+        mute: [{ sources: ["other"], pattern: "." }, { pattern: "feature X" }],
+      });
+
+      expect(result.suppressed).toBe(1);
+      expect(result.version).toBe("1.1.0");
+      expect(result.entries!.map((e) => e.id)).toEqual(["1.1.0"]);
+      const saved = vi.mocked(hashStore.writeStoredData).mock.calls[0][1];
+      expect(saved.identifier).toBe("1.2.0");
+      const muted = saved.entries!.find((e) => e.id === "1.2.0")!;
+      expect(muted.mutedAt).toBeDefined();
+      expect(muted.notifiedAt).toBeUndefined();
+      expect(saved.entries!.find((e) => e.id === "1.1.0")!.notifiedAt).toBeDefined();
+    });
+
+    it("announces entries with bullets outside the muted categories", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "2.0.0" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () =>
+          Promise.resolve("## 2.1.0\n- Fixed a crash\n- Opus 5 in the model picker\n\n## 2.0.0\n- Added X"),
+      });
+
+      const result = await checkSource(mockClaudeSource, { mute: [{ categories: ["Fixed"] }] });
+
+      expect(result.suppressed).toBeUndefined();
+      expect(result.formattedChanges).toContain("Opus 5 in the model picker");
+    });
+
+    it("reports no change when every new entry is muted", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "1.1.0" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(sampleChangelog),
+      });
+
+      const result = await checkSource(mockClaudeSource, { mute: [{ categories: ["Added", "Fixed"] }] });
+
+      expect(result).toEqual({ source: mockClaudeSource, hasChanged: false, suppressed: 1 });
+      expect(vi.mocked(hashStore.writeStoredData).mock.calls[0][1].identifier).toBe("1.2.0");
+    });
+
     it("detects multiple missed versions", async () => {
       vi.mocked(hashStore.readStoredData).mockReturnValue({
         identifier: "1.0.0",
@@ -145,10 +306,27 @@ describe("checkSource integration", () => {
       // Changes should include both versions
       expect(result.formattedChanges).toContain("Added feature X");
       expect(result.formattedChanges).toContain("Added feature A");
+      // Each version is its own section, oldest first
+      expect(result.changes![0].sections).toEqual([
+        "## [1.1.0]\n\n### Added\n- Added feature A",
+        "## [1.2.0]\n\n### Added\n- Added feature X\n\n### Fixed\n- Fixed bug Y",
+      ]);
+      // ...and a typed entry, also on the result
+      expect(result.changes![0].entries).toEqual([
+        { id: "1.1.0", title: "1.1.0", version: "1.1.0", body: "## [1.1.0]\n\n### Added\n- Added feature A", categories: ["Added"] },
+        {
+          id: "1.2.0",
+          title: "1.2.0",
+          version: "1.2.0",
+          body: "## [1.2.0]\n\n### Added\n- Added feature X\n\n### Fixed\n- Fixed bug Y",
+          categories: ["Added", "Fixed"],
+        },
+      ]);
+      expect(result.entries).toBe(result.changes![0].entries);
       // Stored version should be the newest
-      expect(hashStore.writeStoredData).toHaveBeenCalledWith(mockClaudeSource, {
+      expect(hashStore.writeStoredData).toHaveBeenCalledWith(mockClaudeSource, expect.objectContaining({
         identifier: "1.2.0",
-      });
+      }));
     });
 
     it("returns no change when versions match", async () => {
@@ -165,7 +343,7 @@ describe("checkSource integration", () => {
 
       expect(result.hasChanged).toBe(false);
       expect(result.version).toBeUndefined();
-      expect(hashStore.writeStoredData).not.toHaveBeenCalled();
+      expectNothingAnnounced("1.2.0");
     });
 
     it("handles fetch failure gracefully", async () => {
@@ -180,7 +358,19 @@ describe("checkSource integration", () => {
 
       expect(result.hasChanged).toBe(false);
       expect(result.error).toBe("Failed to fetch Claude Code changelog");
-      expect(hashStore.writeStoredData).not.toHaveBeenCalled();
+      expect(hashStore.writeStoredData).toHaveBeenCalledWith(
+        mockClaudeSource,
+        expect.objectContaining({ lastError: "Failed to fetch Claude Code changelog" })
+      );
+    });
+
+    it("names the source in fetch errors", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404 });
+
+      const result = await checkSource({ ...mockClaudeSource, id: "codex", name: "Codex CLI" });
+
+      expect(result.error).toBe("Failed to fetch Codex CLI changelog");
     });
 
     it("handles empty changelog gracefully", async () => {
@@ -249,9 +439,9 @@ describe("checkSource integration", () => {
       // URL should appear once at end, not per-entry
       expect(result.formattedChanges).toContain(mockGeminiSource.releasePageUrl);
       expect(result.formattedChanges!.endsWith(mockGeminiSource.releasePageUrl)).toBe(true);
-      expect(hashStore.writeStoredData).toHaveBeenCalledWith(mockGeminiSource, {
+      expect(hashStore.writeStoredData).toHaveBeenCalledWith(mockGeminiSource, expect.objectContaining({
         identifier: "2025.01.17",
-      });
+      }));
     });
 
     it("detects multiple missed entries with URL once at end", async () => {
@@ -287,9 +477,9 @@ describe("checkSource integration", () => {
       const urlCount = result.formattedChanges!.split(mockGeminiSource.releasePageUrl).length - 1;
       expect(urlCount).toBe(1);
       // Stored identifier is the newest date
-      expect(hashStore.writeStoredData).toHaveBeenCalledWith(mockGeminiSource, {
+      expect(hashStore.writeStoredData).toHaveBeenCalledWith(mockGeminiSource, expect.objectContaining({
         identifier: "2025.01.17",
-      });
+      }));
     });
 
     it("detects single date change", async () => {
@@ -340,7 +530,7 @@ describe("checkSource integration", () => {
       const result = await checkSource(mockGeminiSource);
 
       expect(result.hasChanged).toBe(false);
-      expect(hashStore.writeStoredData).not.toHaveBeenCalled();
+      expectNothingAnnounced("2025.01.17");
     });
 
     it("handles CDX API failure with isTransient flag", async () => {
@@ -424,9 +614,10 @@ describe("checkSource integration", () => {
       expect(result.hasChanged).toBe(true);
       expect(result.version).toBe("Update detected");
       // Falls back to using timestamp as identifier
-      expect(hashStore.writeStoredData).toHaveBeenCalledWith(mockGeminiSource, {
+      expect(hashStore.writeStoredData).toHaveBeenCalledWith(mockGeminiSource, expect.objectContaining({
         identifier: "20250117120000",
-      });
+        snapshotTimestamp: "20250117120000",
+      }));
     });
   });
 
@@ -469,9 +660,9 @@ describe("checkSource integration", () => {
       expect(result.formattedChanges!.endsWith(mockChatGPTSource.releasePageUrl)).toBe(true);
       expect(hashStore.writeStoredData).toHaveBeenCalledWith(
         mockChatGPTSource,
-        {
+        expect.objectContaining({
           identifier: "January 17, 2026",
-        }
+        })
       );
     });
 
@@ -619,6 +810,9 @@ describe("checkSource integration", () => {
       // Each post should have its own article URL
       expect(result.formattedChanges).toContain("https://claude.com/blog/introducing-claude-4-5");
       expect(result.formattedChanges).toContain("https://claude.com/blog/claude-gets-memory");
+      expect(result.changes![0].entries!.map((e) => e.url)).toContain(
+        "https://claude.com/blog/introducing-claude-4-5"
+      );
     });
 
     it("returns no change when newest title matches stored", async () => {
@@ -630,7 +824,7 @@ describe("checkSource integration", () => {
       const result = await checkSource(mockClaudeBlogSource);
 
       expect(result.hasChanged).toBe(false);
-      expect(hashStore.writeStoredData).not.toHaveBeenCalled();
+      expectNothingAnnounced("Introducing Claude 4.5");
     });
 
     it("handles Wayback failure with isTransient flag", async () => {
@@ -650,6 +844,1017 @@ describe("checkSource integration", () => {
     });
   });
 
+  describe("feed parser", () => {
+    const sampleFeed = `<rss version="2.0"><channel>
+      <item>
+        <title>Release 2.0</title>
+        <link>https://vendor.example/releases/2.0</link>
+        <guid>r-2.0</guid>
+        <pubDate>Tue, 10 Feb 2026 12:00:00 GMT</pubDate>
+        <description>New dashboard</description>
+      </item>
+      <item>
+        <title>Release 1.9</title>
+        <link>https://vendor.example/releases/1.9</link>
+        <guid>r-1.9</guid>
+        <pubDate>Mon, 02 Feb 2026 12:00:00 GMT</pubDate>
+        <description>Bug fixes</description>
+      </item>
+    </channel></rss>`;
+
+    function mockFeedFetch(xml: string) {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(xml),
+      });
+    }
+
+    it("handles first run - announces newest item and records all guids in history", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockFeedFetch(sampleFeed);
+
+      const result = await checkSource(mockFeedSource);
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.version).toBe("Release 2.0");
+      expect(result.formattedChanges).toBe(
+        "Release 2.0 (Tue, 10 Feb 2026 12:00:00 GMT)\nNew dashboard\nhttps://vendor.example/releases/2.0"
+      );
+      const [, saved] = vi.mocked(hashStore.writeStoredData).mock.calls[0];
+      expect(saved.identifier).toBe("r-2.0");
+      expect(saved.entries!.map((e) => [e.id, !!e.notifiedAt])).toEqual([
+        ["r-2.0", true],
+        ["r-1.9", false],
+      ]);
+    });
+
+    it("announces every missed item oldest first", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({
+        identifier: "r-1.8",
+        entries: historyOf("r-1.8"),
+      });
+      mockFeedFetch(sampleFeed);
+
+      const result = await checkSource(mockFeedSource);
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.version).toBe("Release 2.0 (+1 more)");
+      expect(result.formattedChanges!.indexOf("Release 1.9")).toBeLessThan(
+        result.formattedChanges!.indexOf("Release 2.0")
+      );
+      const [, saved] = vi.mocked(hashStore.writeStoredData).mock.calls[0];
+      expect(saved.identifier).toBe("r-2.0");
+      expect(saved.entries!.map((e) => e.id)).toEqual(["r-2.0", "r-1.9", "r-1.8"]);
+    });
+
+    it("does not alert when a feed is reordered", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({
+        identifier: "r-2.0",
+        entries: historyOf("r-2.0", "r-1.9"),
+      });
+      const reordered = sampleFeed.replace("<pubDate>Tue, 10 Feb", "<pubDate>Sun, 01 Feb");
+      mockFeedFetch(reordered);
+
+      const result = await checkSource(mockFeedSource);
+
+      expect(result.hasChanged).toBe(false);
+      expectNothingAnnounced("r-2.0");
+    });
+
+    it("reports an error for a document without entries", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockFeedFetch("<html>Maintenance</html>");
+
+      const result = await checkSource(mockFeedSource);
+
+      expect(result.hasChanged).toBe(false);
+      expect(result.error).toBe("No entries found in feed");
+    });
+  });
+
+  describe("github-releases parser (local API stand-in)", () => {
+    const releases = [
+      {
+        tag_name: "v2.1.0-beta.1",
+        name: "2.1 beta",
+        body: "Try the beta",
+        html_url: "https://github.com/acme/tool/releases/tag/v2.1.0-beta.1",
+        draft: false,
+        prerelease: true,
+      },
+      {
+        tag_name: "v2.0.0",
+        name: "v2.0.0",
+        body: "- Big release\r\n- More things",
+        html_url: "https://github.com/acme/tool/releases/tag/v2.0.0",
+        draft: false,
+        prerelease: false,
+      },
+      {
+        tag_name: "v1.9.0",
+        name: "",
+        body: "- Small fix",
+        html_url: "https://github.com/acme/tool/releases/tag/v1.9.0",
+        draft: false,
+        prerelease: false,
+      },
+      {
+        tag_name: "v3.0.0",
+        name: "Unpublished",
+        body: "Draft notes",
+        html_url: "https://github.com/acme/tool/releases/tag/untagged",
+        draft: true,
+        prerelease: false,
+      },
+    ];
+
+    let server: http.Server;
+    let apiBaseUrl: string;
+    let requests: { url?: string; authorization?: string }[];
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        requests.push({ url: req.url, authorization: req.headers.authorization });
+        if (req.url?.startsWith("/repos/acme/tool/releases")) {
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(releases));
+        } else {
+          res.writeHead(404);
+          res.end("Not Found");
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      apiBaseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      requests = [];
+      global.fetch = originalFetch; // Talk to the real local server
+    });
+
+    afterEach(() => {
+      delete process.env.TEST_GITHUB_TOKEN;
+    });
+
+    function githubSource(options: Record<string, unknown> = {}): ReleaseSource {
+      return {
+        id: "acme-tool",
+        name: "Acme Tool",
+        url: "https://github.com/acme/tool/releases",
+        parserType: "github-releases",
+        stateFile: "acme-tool.json",
+        releasePageUrl: "https://github.com/acme/tool/releases",
+        parserOptions: { repo: "acme/tool", apiBaseUrl, ...options },
+      };
+    }
+
+    it("announces missed stable releases oldest first, skipping drafts and prereleases", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "v1.8.0" });
+      const source = githubSource();
+
+      const result = await checkSource(source);
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.version).toBe("v1.9.0 → v2.0.0");
+      expect(result.formattedChanges).toBe(
+        "## v1.9.0\n\n- Small fix\n\nhttps://github.com/acme/tool/releases/tag/v1.9.0" +
+          "\n\n---\n\n" +
+          "## v2.0.0\n\n- Big release\n- More things\n\nhttps://github.com/acme/tool/releases/tag/v2.0.0"
+      );
+      expect(hashStore.writeStoredData).toHaveBeenCalledWith(source, expect.objectContaining({
+        identifier: "v2.0.0",
+      }));
+      expect(requests[0].url).toBe("/repos/acme/tool/releases?per_page=100");
+      expect(requests[0].authorization).toBeUndefined();
+    });
+
+    it("includes prereleases when configured", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "v2.0.0" });
+
+      const result = await checkSource(githubSource({ includePrereleases: true }));
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.version).toBe("v2.1.0-beta.1");
+      expect(result.formattedChanges).toContain("## v2.1.0-beta.1 - 2.1 beta");
+    });
+
+    it("returns no change when the newest release is stored", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "v2.0.0" });
+
+      const result = await checkSource(githubSource());
+
+      expect(result.hasChanged).toBe(false);
+      expectNothingAnnounced("v2.0.0");
+    });
+
+    it("sends the token from the configured env var", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "v2.0.0" });
+      process.env.TEST_GITHUB_TOKEN = "secret-token";
+
+      await checkSource(githubSource({ tokenEnv: "TEST_GITHUB_TOKEN" }));
+
+      expect(requests[0].authorization).toBe("Bearer secret-token");
+    });
+
+    it("reports API errors", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+
+      const result = await checkSource(githubSource({ repo: "acme/missing" }));
+
+      expect(result.hasChanged).toBe(false);
+      expect(result.error).toBe("GitHub API returned 404 for acme/missing");
+    });
+  });
+
+  describe("npm and pypi parsers (local registry stand-in)", () => {
+    let server: http.Server;
+    let registryUrl: string;
+    let requestedPaths: string[];
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        requestedPaths.push(req.url || "");
+        let body: unknown;
+        if (req.url === "/@acme%2fsdk") {
+          body = {
+            versions: { "1.0.0": {}, "1.1.0": {}, "1.2.0": {}, "1.3.0-beta.1": {} },
+            time: {
+              "1.1.0": "2026-02-01T10:00:00.000Z",
+              "1.2.0": "2026-02-10T12:00:00.000Z",
+            },
+          };
+        } else if (req.url === "/pypi/acme/json") {
+          body = {
+            releases: {
+              "0.9.0": [{ upload_time_iso_8601: "2026-01-01T00:00:00Z" }],
+              "1.0.0": [{ upload_time_iso_8601: "2026-02-10T12:00:00Z" }],
+              "1.1.0rc1": [{ upload_time_iso_8601: "2026-02-11T12:00:00Z" }],
+            },
+          };
+        }
+        if (body) {
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(body));
+        } else {
+          res.writeHead(404);
+          res.end("{}");
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      registryUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      requestedPaths = [];
+      global.fetch = originalFetch; // Talk to the real local server
+    });
+
+    function registrySource(
+      parserType: "npm" | "pypi",
+      packageName: string
+    ): ReleaseSource {
+      return {
+        id: `${parserType}-pkg`,
+        name: packageName,
+        url: `https://example.com/${packageName}`,
+        parserType,
+        stateFile: `${parserType}-pkg.json`,
+        releasePageUrl: `https://example.com/${packageName}`,
+        parserOptions: { package: packageName, registryUrl },
+      };
+    }
+
+    it("lists npm versions newer than the stored one with publish time and link", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "1.0.0" });
+      const source = registrySource("npm", "@acme/sdk");
+
+      const result = await checkSource(source);
+
+      expect(requestedPaths).toEqual(["/@acme%2fsdk"]);
+      expect(result.hasChanged).toBe(true);
+      expect(result.version).toBe("1.1.0 → 1.2.0");
+      expect(result.formattedChanges).toBe(
+        "## 1.1.0\nPublished 2026-02-01 10:00 UTC\nhttps://www.npmjs.com/package/@acme/sdk/v/1.1.0" +
+          "\n\n---\n\n" +
+          "## 1.2.0\nPublished 2026-02-10 12:00 UTC\nhttps://www.npmjs.com/package/@acme/sdk/v/1.2.0"
+      );
+      expect(hashStore.writeStoredData).toHaveBeenCalledWith(source, expect.objectContaining({
+        identifier: "1.2.0",
+      }));
+    });
+
+    it("lists PyPI versions newer than the stored one, skipping prereleases", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "0.9.0" });
+
+      const result = await checkSource(registrySource("pypi", "acme"));
+
+      expect(requestedPaths).toEqual(["/pypi/acme/json"]);
+      expect(result.hasChanged).toBe(true);
+      expect(result.version).toBe("1.0.0");
+      expect(result.formattedChanges).toBe(
+        "## 1.0.0\nPublished 2026-02-10 12:00 UTC\nhttps://pypi.org/project/acme/1.0.0/"
+      );
+    });
+
+    it("returns no change when the newest version is stored", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "1.2.0" });
+
+      const result = await checkSource(registrySource("npm", "@acme/sdk"));
+
+      expect(result.hasChanged).toBe(false);
+      expectNothingAnnounced("1.2.0");
+    });
+
+    it("reports unknown packages", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+
+      const result = await checkSource(registrySource("pypi", "missing"));
+
+      expect(result.hasChanged).toBe(false);
+      expect(result.error).toBe("Registry returned 404 for missing");
+    });
+  });
+
+  describe("wayback parser fetch strategies", () => {
+    const liveFirstGemini: ReleaseSource = {
+      ...mockGeminiSource,
+      parserOptions: { ...mockGeminiSource.parserOptions, strategies: ["live", "wayback"] },
+    };
+
+    const geminiHtml = `
+      <html>
+        <h2>2025.01.17</h2>
+        <p>New Feature Title</p>
+        <h2>2025.01.15</h2>
+        <p>Older Feature</p>
+      </html>
+    `;
+
+    function mockWaybackFetch(html: string) {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            ["timestamp", "original"],
+            ["20250117120000", "https://gemini.google/release-notes/"],
+          ]),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(html),
+      });
+    }
+
+    it("uses the live page when it parses and records the strategy", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "2025.01.15" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(geminiHtml),
+      });
+
+      const result = await checkSource(liveFirstGemini);
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.strategy).toBe("live");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe("https://gemini.google/release-notes/");
+    });
+
+    it("falls back to Wayback when the live page fails to load", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "2025.01.15" });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 403 });
+      mockWaybackFetch(geminiHtml);
+
+      const result = await checkSource(liveFirstGemini);
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.strategy).toBe("wayback");
+      expect(result.version).toBe("New Feature Title:2025.01.17");
+    });
+
+    it("does not count entries announced after an older snapshot as missing from it", async () => {
+      const seen = (id: string, firstSeenAt: string) => ({
+        ...historyOf(id)[0],
+        date: id,
+        firstSeenAt,
+        notifiedAt: firstSeenAt,
+      });
+      let stored: hashStore.StoredData = {
+        identifier: "2025.01.20",
+        entries: [
+          seen("2025.01.20", "2025-01-20T08:00:00.000Z"),
+          seen("2025.01.17", "2025-01-17T08:00:00.000Z"),
+          seen("2025.01.15", "2025-01-15T08:00:00.000Z"),
+        ],
+      };
+
+      // The live page keeps failing; the newest snapshot predates 2025.01.20
+      for (let run = 0; run < 4; run++) {
+        vi.mocked(hashStore.readStoredData).mockReturnValue(stored);
+        mockFetch.mockResolvedValueOnce({ ok: false, status: 403 });
+        mockWaybackFetch(geminiHtml);
+
+        const result = await checkSource(liveFirstGemini);
+
+        expect(result.hasChanged).toBe(false);
+        const calls = vi.mocked(hashStore.writeStoredData).mock.calls;
+        stored = calls[calls.length - 1][1];
+      }
+
+      expect(stored.entries![0]).toMatchObject({ id: "2025.01.20" });
+      expect(stored.entries![0].missingChecks).toBeUndefined();
+      expect(stored.entries![0].retractedAt).toBeUndefined();
+    });
+
+    it("falls back to Wayback when the live page has no parseable entries", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "2025.01.15" });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve("<html><p>Checking your browser...</p></html>"),
+      });
+      mockWaybackFetch(geminiHtml);
+
+      const result = await checkSource(liveFirstGemini);
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.strategy).toBe("wayback");
+    });
+
+    it("falls back to Wayback on a live network error", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "2025.01.15" });
+      mockFetch.mockRejectedValueOnce(new Error("ECONNRESET"));
+      mockWaybackFetch(geminiHtml);
+
+      const result = await checkSource(liveFirstGemini);
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.strategy).toBe("wayback");
+    });
+
+    it("reports the last strategy's error when all strategies fail", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 403 });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([]) });
+
+      const result = await checkSource(liveFirstGemini);
+
+      expect(result.hasChanged).toBe(false);
+      expect(result.error).toBe("No Wayback snapshot available via CDX");
+      expect(result.isTransient).toBe(true);
+    });
+
+    it("does not fall back to a snapshot timestamp for live-only sources", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve("<html><p>No date here</p></html>"),
+      });
+
+      const result = await checkSource({
+        ...mockGeminiSource,
+        parserOptions: { ...mockGeminiSource.parserOptions, strategies: ["live"] },
+      });
+
+      expect(result.hasChanged).toBe(false);
+      expect(result.error).toBe("Could not extract date from live page");
+    });
+
+    it("records the wayback strategy for the default strategy list", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "2025.01.15" });
+      mockWaybackFetch(geminiHtml);
+
+      const result = await checkSource(mockGeminiSource);
+
+      expect(result.strategy).toBe("wayback");
+    });
+  });
+
+  describe("wayback parser extraction rules", () => {
+    function mockWaybackFetch(html: string) {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            ["timestamp", "original"],
+            ["20260210120000", "https://vendor.example/notes"],
+          ]),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve(html),
+      });
+    }
+
+    const vendorSource: ReleaseSource = {
+      id: "vendor-notes",
+      name: "Vendor",
+      url: "https://vendor.example/notes",
+      parserType: "wayback",
+      stateFile: "vendor-notes.json",
+      releasePageUrl: "https://vendor.example/notes",
+    };
+
+    it("onboards an ISO-dated release notes page with only configuration", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "2026-01-30" });
+      mockWaybackFetch(`
+        <h3>2026-02-10</h3><p>Audit log export</p>
+        <h3>2026-02-02</h3><p>SAML improvements</p>
+        <h3>2026-01-30</h3><p>Older</p>
+      `);
+
+      const result = await checkSource({
+        ...vendorSource,
+        parserOptions: { dateFormat: "year-month-day" },
+      });
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.formattedChanges).toBe(
+        "SAML improvements (2026-02-02)\n\n---\n\nAudit log export (2026-02-10)\n\nhttps://vendor.example/notes"
+      );
+    });
+
+    it("uses a custom date pattern", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockWaybackFetch(`<h2>12 Feb 2026</h2><p>Dark mode</p>`);
+
+      const result = await checkSource({
+        ...vendorSource,
+        parserOptions: { datePattern: "\\d{1,2} (?:Jan|Feb|Mar) \\d{4}" },
+      });
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.version).toBe("Dark mode:12 Feb 2026");
+    });
+
+    it("reads a heading-posts listing with heading levels and link pattern", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockWaybackFetch(`
+        <h1>Vendor Blog</h1>
+        <h4>Not a post</h4><p>January 1, 2026</p>
+        <h3>Shipping faster</h3>
+        <p>February 10, 2026</p>
+        <a href="/web/20260210/https://vendor.example/tags/news">News</a>
+        <a href="/web/20260210/https://vendor.example/posts/shipping-faster">Read</a>
+      `);
+
+      const result = await checkSource({
+        ...vendorSource,
+        parserOptions: {
+          entryMode: "heading-posts",
+          headingLevels: [3],
+          linkPattern: "/posts/",
+        },
+      });
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.formattedChanges).toBe(
+        "Shipping faster (February 10, 2026): https://vendor.example/posts/shipping-faster\nNews"
+      );
+    });
+
+    it("fetches the lead paragraph of new posts without an excerpt", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockWaybackFetch(`
+        <h3>Shipping faster</h3>
+        <p>February 10, 2026</p>
+        <a href="/web/20260210/https://vendor.example/posts/shipping-faster">Read</a>
+      `);
+      mockWaybackFetch(`
+        <nav><p>Menu</p></nav>
+        <article><p>February 10, 2026</p><p>Deploys now finish in half the time, thanks to a new build cache.</p></article>
+      `);
+
+      const result = await checkSource({
+        ...vendorSource,
+        parserOptions: { entryMode: "heading-posts", fetchArticles: true },
+      });
+
+      expect(mockFetch.mock.calls[2][0]).toContain("url=https%3A%2F%2Fvendor.example%2Fposts%2Fshipping-faster");
+      expect(result.entries![0].body).toBe(
+        "Deploys now finish in half the time, thanks to a new build cache."
+      );
+    });
+
+    it("announces a post without excerpt when its article can't be fetched", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockWaybackFetch(`
+        <h3>Shipping faster</h3>
+        <p>February 10, 2026</p>
+        <a href="/web/20260210/https://vendor.example/posts/shipping-faster">Read</a>
+      `);
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([]) });
+
+      const result = await checkSource({
+        ...vendorSource,
+        parserOptions: { entryMode: "heading-posts", fetchArticles: true },
+      });
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.formattedChanges).toBe(
+        "Shipping faster (February 10, 2026): https://vendor.example/posts/shipping-faster"
+      );
+    });
+  });
+
+  describe("entry history", () => {
+    const changelog = `# Changelog
+
+## [1.2.0]
+- Added feature X
+
+## [1.1.1]
+- Hotfix published after 1.2.0
+
+## [1.1.0]
+- Added feature A`;
+
+    function mockChangelog(text: string) {
+      mockFetch.mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(text) });
+    }
+
+    it("announces an entry that was never seen even if it is not the newest", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({
+        identifier: "1.2.0",
+        entries: historyOf("1.2.0", "1.1.0"),
+      });
+      mockChangelog(changelog);
+
+      const result = await checkSource(mockClaudeSource);
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.version).toBe("1.1.1");
+      expect(result.formattedChanges).toContain("Hotfix published after 1.2.0");
+      expect(result.formattedChanges).not.toContain("Added feature X");
+
+      const [, saved] = vi.mocked(hashStore.writeStoredData).mock.calls[0];
+      expect(saved.entries!.map((e) => e.id)).toEqual(["1.2.0", "1.1.1", "1.1.0"]);
+      expect(saved.entries![1].notifiedAt).toBe(saved.lastCheckAt);
+      expect(saved.entries![0].firstSeenAt).toBe("2026-01-01T00:00:00.000Z");
+    });
+
+    it("records history on first run", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockChangelog(changelog);
+
+      await checkSource(mockClaudeSource);
+
+      const [, saved] = vi.mocked(hashStore.writeStoredData).mock.calls[0];
+      expect(saved.identifier).toBe("1.2.0");
+      expect(saved.entries!.map((e) => [e.id, !!e.notifiedAt])).toEqual([
+        ["1.2.0", true],
+        ["1.1.1", false],
+        ["1.1.0", false],
+      ]);
+      expect(saved.entries![0].hash).toBe(hashStore.hashContent("## [1.2.0]\n- Added feature X"));
+    });
+
+    it("records the error of a failed check and clears it on the next success", async () => {
+      const stored = { identifier: "1.2.0", entries: historyOf("1.2.0") };
+      vi.mocked(hashStore.readStoredData).mockReturnValue(stored);
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await checkSource(mockClaudeSource);
+
+      const [, failed] = vi.mocked(hashStore.writeStoredData).mock.calls[0];
+      expect(failed).toMatchObject({ ...stored, lastError: "Failed to fetch Claude Code changelog" });
+      expect(failed.lastCheckAt).toBeDefined();
+
+      vi.mocked(hashStore.readStoredData).mockReturnValue(failed);
+      mockChangelog("## [1.2.0]\n- Added feature X");
+
+      await checkSource(mockClaudeSource);
+
+      const [, recovered] = vi.mocked(hashStore.writeStoredData).mock.calls[1];
+      expect(recovered.lastError).toBeUndefined();
+      expect(recovered.identifier).toBe("1.2.0");
+    });
+
+    it("counts failed checks in a row and resets the count on success", async () => {
+      const stored = { identifier: "1.2.0", entries: historyOf("1.2.0"), lastChangeAt: "2026-01-01T00:00:00.000Z" };
+      vi.mocked(hashStore.readStoredData).mockReturnValue(stored);
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await checkSource(mockClaudeSource);
+
+      const [, first] = vi.mocked(hashStore.writeStoredData).mock.calls[0];
+      expect(first.consecutiveFailures).toBe(1);
+      expect(first.lastSuccessAt).toBeUndefined();
+
+      vi.mocked(hashStore.readStoredData).mockReturnValue(first);
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+
+      await checkSource(mockClaudeSource);
+
+      const [, second] = vi.mocked(hashStore.writeStoredData).mock.calls[1];
+      expect(second.consecutiveFailures).toBe(2);
+
+      vi.mocked(hashStore.readStoredData).mockReturnValue(second);
+      mockChangelog("## [1.2.0]\n- Added feature X");
+
+      await checkSource(mockClaudeSource);
+
+      const [, recovered] = vi.mocked(hashStore.writeStoredData).mock.calls[2];
+      expect(recovered.consecutiveFailures).toBeUndefined();
+      expect(recovered.lastSuccessAt).toBe(recovered.lastCheckAt);
+      // Nothing new was announced
+      expect(recovered.lastChangeAt).toBe("2026-01-01T00:00:00.000Z");
+    });
+
+    it("records when a check last announced something", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({ identifier: "1.1.0", entries: historyOf("1.1.0") });
+      mockChangelog("## [1.2.0]\n- Added feature X\n\n## [1.1.0]\n- Old");
+
+      await checkSource(mockClaudeSource);
+
+      const [, saved] = vi.mocked(hashStore.writeStoredData).mock.calls[0];
+      expect(saved.lastChangeAt).toBe(saved.lastCheckAt);
+      expect(saved.snapshotTimestamp).toBeUndefined();
+    });
+
+    it("does not announce older dated sections that come into view", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({
+        identifier: "2025.01.17",
+        entries: [
+          { ...historyOf("2025.01.17")[0], date: "2025.01.17" },
+        ],
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            ["timestamp", "original"],
+            ["20250118120000", "https://gemini.google/release-notes/"],
+          ]),
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () =>
+          Promise.resolve(`
+            <h2>2025.01.17</h2><p>New Feature Title</p>
+            <h2>2025.01.10</h2><p>Older section</p>
+          `),
+      });
+
+      const result = await checkSource(mockGeminiSource);
+
+      expect(result.hasChanged).toBe(false);
+      const [, saved] = vi.mocked(hashStore.writeStoredData).mock.calls[0];
+      expect(saved.entries!.map((e) => e.id)).toEqual(["2025.01.17", "2025.01.10"]);
+    });
+  });
+
+  describe("edit detection", () => {
+    const editingChatGPTSource: ReleaseSource = { ...mockChatGPTSource, detectEdits: true };
+    const editingClaudeSource: ReleaseSource = { ...mockClaudeSource, detectEdits: true };
+
+    const chatGPTHtml = (extra = "") => `
+      <h2>January 17, 2026</h2>
+      <p>Voice mode</p>
+      <p>Available to Plus users.</p>
+      ${extra}
+      <h2>January 10, 2026</h2>
+      <p>Older update</p>
+    `;
+
+    function mockChatGPTPage(html: string) {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve([
+            ["timestamp", "original"],
+            ["20260120120000", "https://help.openai.com/chatgpt-release-notes"],
+          ]),
+      });
+      mockFetch.mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(html) });
+    }
+
+    function mockChangelog(text: string) {
+      mockFetch.mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(text) });
+    }
+
+    // Run one check and return the state it saved
+    async function checkAndSave(source: ReleaseSource) {
+      const result = await checkSource(source);
+      const calls = vi.mocked(hashStore.writeStoredData).mock.calls;
+      const saved = calls[calls.length - 1][1];
+      vi.mocked(hashStore.readStoredData).mockReturnValue(saved);
+      return { result, saved };
+    }
+
+    it("announces an update appended to an announced date section", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockChatGPTPage(chatGPTHtml());
+      const first = await checkAndSave(editingChatGPTSource);
+
+      expect(first.result.changes!.map((c) => c.kind)).toEqual(["new-entry"]);
+      expect(first.saved.entries![0].body).toBe("Voice mode\nAvailable to Plus users.");
+      expect(first.saved.entries![1].body).toBeUndefined(); // Never announced
+
+      mockChatGPTPage(chatGPTHtml("<p>Update: now available to all users.</p>"));
+      const { result, saved } = await checkAndSave(editingChatGPTSource);
+
+      expect(result.hasChanged).toBe(true);
+      expect(result.version).toBeUndefined();
+      expect(result.changes).toEqual([
+        {
+          kind: "entry-updated",
+          version: "Updated: Voice mode (January 17, 2026)",
+          formattedChanges: `+ Update: now available to all users.\n\n${mockChatGPTSource.releasePageUrl}`,
+          sections: ["```\n+ Update: now available to all users.\n```"],
+          entries: [
+            {
+              id: "January 17, 2026",
+              title: "Voice mode",
+              date: "January 17, 2026",
+              body: "Voice mode\nAvailable to Plus users.\nUpdate: now available to all users.",
+            },
+          ],
+          diff: { added: ["Update: now available to all users."], removed: [] },
+        },
+      ]);
+      expect(saved.identifier).toBe("January 17, 2026");
+      expect(saved.entries![0].body).toContain("Update: now available to all users.");
+
+      // The same edit is not announced twice
+      mockChatGPTPage(chatGPTHtml("<p>Update: now available to all users.</p>"));
+      expect((await checkAndSave(editingChatGPTSource)).result.hasChanged).toBe(false);
+    });
+
+    it("tells apart sections that share a date", async () => {
+      const sameDayHtml = (extra = "") => `
+        ${extra}
+        <h2>January 17, 2026</h2>
+        <p>Feature B for enterprise</p>
+        <h2>January 17, 2026</h2>
+        <p>Feature A for everyone</p>
+      `;
+      vi.mocked(hashStore.readStoredData).mockReturnValue({
+        identifier: "January 10, 2026",
+        entries: [{ ...historyOf("January 10, 2026")[0], date: "January 10, 2026" }],
+      });
+      mockChatGPTPage(sameDayHtml());
+      const first = await checkAndSave(editingChatGPTSource);
+
+      const idOf = (title: string) => `January 17, 2026#${hashStore.hashContent(title).slice(0, 8)}`;
+      expect(first.result.entries!.map((e) => [e.id, e.title])).toEqual([
+        [idOf("Feature A for everyone"), "Feature A for everyone"],
+        [idOf("Feature B for enterprise"), "Feature B for enterprise"],
+      ]);
+
+      // Unchanged sections are never reported as edited
+      for (let run = 0; run < 3; run++) {
+        mockChatGPTPage(sameDayHtml());
+        expect((await checkAndSave(editingChatGPTSource)).result.hasChanged).toBe(false);
+      }
+
+      // A further section of that date above them is the only new one
+      mockChatGPTPage(sameDayHtml("<h2>January 17, 2026</h2><p>Feature C</p>"));
+      const { result } = await checkAndSave(editingChatGPTSource);
+      expect(result.changes!.map((c) => [c.kind, c.entries!.map((e) => e.id)])).toEqual([
+        ["new-entry", [idOf("Feature C")]],
+      ]);
+    });
+
+    it("keeps the ids of sections that share a date when one is removed", async () => {
+      const source: ReleaseSource = { ...editingChatGPTSource, retractAfter: 1 };
+      const alpha = "<h2>January 20, 2026</h2><p>Alpha</p>";
+      const beta = "<h2>January 20, 2026</h2><p>Beta</p>";
+      const older = "<h2>January 10, 2026</h2><p>Older update</p>";
+      vi.mocked(hashStore.readStoredData).mockReturnValue({
+        identifier: "January 10, 2026",
+        entries: [{ ...historyOf("January 10, 2026")[0], title: "Older update", date: "January 10, 2026" }],
+      });
+      // Checked before the snapshot was taken, so it counts missing entries
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2026-01-20T10:00:00.000Z"));
+      try {
+        mockChatGPTPage(alpha + beta + older);
+        await checkAndSave(source);
+
+        mockChatGPTPage(alpha + older);
+        const { result } = await checkAndSave(source);
+
+        expect(result.changes!.map((c) => [c.kind, c.version])).toEqual([
+          ["entry-retracted", "Retracted: Beta (January 20, 2026)"],
+        ]);
+        expect(result.changes![0].formattedChanges).toContain("(missing for 1 check in a row)");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("reports new versions and edited versions as separate changes", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockChangelog("## [1.2.0]\n- Added feature X\n- Fixed bug Y");
+      await checkAndSave(editingClaudeSource);
+
+      mockChangelog("## [1.3.0]\n- Added feature Z\n\n## [1.2.0]\n- Added feature X (beta)\n- Fixed bug Y");
+      const { result } = await checkAndSave(editingClaudeSource);
+
+      expect(result.version).toBe("1.3.0");
+      expect(result.changes!.map((c) => [c.kind, c.version])).toEqual([
+        ["new-entry", "1.3.0"],
+        ["entry-updated", "Updated: 1.2.0"],
+      ]);
+      expect(result.changes![1].formattedChanges).toBe(
+        `- - Added feature X\n+ - Added feature X (beta)\n\n${mockClaudeSource.releasePageUrl}`
+      );
+    });
+
+    it("ignores edits unless the source opts in", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      mockChangelog("## [1.2.0]\n- Added feature X");
+      const first = await checkAndSave(mockClaudeSource);
+      // The body is kept for history searches, but never diffed
+      expect(first.saved.entries![0].body).toBe("## [1.2.0]\n- Added feature X");
+
+      mockChangelog("## [1.2.0]\n- Added feature X (beta)");
+      const { result } = await checkAndSave(mockClaudeSource);
+
+      expect(result.hasChanged).toBe(false);
+    });
+
+    it("starts tracking edits of entries announced before opting in", async () => {
+      vi.mocked(hashStore.readStoredData).mockReturnValue({
+        identifier: "1.2.0",
+        entries: [{ ...historyOf("1.2.0")[0], notifiedAt: "2026-01-01T00:00:00.000Z" }],
+      });
+      mockChangelog("## [1.2.0]\n- Added feature X");
+      const baseline = await checkAndSave(editingClaudeSource);
+
+      expect(baseline.result.hasChanged).toBe(false);
+      expect(baseline.saved.entries![0].body).toBe("## [1.2.0]\n- Added feature X");
+
+      mockChangelog("## [1.2.0]\n- Added feature X\n- Fixed bug Y");
+      const { result } = await checkAndSave(editingClaudeSource);
+
+      expect(result.changes![0].diff).toEqual({ added: ["- Fixed bug Y"], removed: [] });
+    });
+  });
+
+  describe("retraction detection", () => {
+    const changelog = "## [1.3.0]\n- Added Z\n\n## [1.2.0]\n- Added Y\n\n## [1.1.0]\n- Added X";
+    const pulled = "## [1.3.0]\n- Added Z\n\n## [1.1.0]\n- Added X";
+
+    // Run checks against the given pages, feeding saved state into the next one
+    async function runChecks(source: ReleaseSource, pages: string[]) {
+      vi.mocked(hashStore.readStoredData).mockReturnValue(null);
+      const results = [];
+      for (const page of pages) {
+        mockFetch.mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(page) });
+        results.push(await checkSource(source));
+        const calls = vi.mocked(hashStore.writeStoredData).mock.calls;
+        vi.mocked(hashStore.readStoredData).mockReturnValue(calls[calls.length - 1][1]);
+      }
+      return results;
+    }
+
+    it("announces a version missing for retractAfter consecutive checks once", async () => {
+      const results = await runChecks(mockClaudeSource, [changelog, pulled, pulled, pulled, pulled]);
+
+      expect(results.slice(1, 3).map((r) => r.hasChanged)).toEqual([false, false]);
+      expect(results[3].changes).toEqual([
+        {
+          kind: "entry-retracted",
+          version: "Retracted: 1.2.0",
+          formattedChanges: `No longer listed by Claude Code (missing for 3 checks in a row).\n\n${mockClaudeSource.releasePageUrl}`,
+          sections: ["No longer listed by Claude Code (missing for 3 checks in a row)."],
+          entries: [{ id: "1.2.0", title: "1.2.0" }],
+        },
+      ]);
+      expect(results[4].hasChanged).toBe(false);
+    });
+
+    it("quotes the last known content of announced entries", async () => {
+      const source = { ...mockClaudeSource, detectEdits: true, retractAfter: 1 };
+      const [, result] = await runChecks(source, [changelog, "## [1.2.0]\n- Added Y\n\n## [1.1.0]\n- Added X"]);
+
+      expect(result.changes![0].version).toBe("Retracted: 1.3.0");
+      expect(result.changes![0].formattedChanges).toContain("## [1.3.0]\n- Added Z");
+    });
+
+    it("does not count a version that reappears before the threshold", async () => {
+      const results = await runChecks(mockClaudeSource, [changelog, pulled, pulled, changelog, pulled, pulled]);
+
+      expect(results.some((r) => r.hasChanged && r !== results[0])).toBe(false);
+    });
+
+    it("can be turned off", async () => {
+      const source = { ...mockClaudeSource, retractAfter: 0 };
+      const results = await runChecks(source, [changelog, pulled, pulled, pulled]);
+
+      expect(results[3].hasChanged).toBe(false);
+    });
+  });
+
   describe("bug fixes", () => {
     function mockWaybackSuccess(html: string) {
       mockFetch.mockResolvedValueOnce({
@@ -698,7 +1903,7 @@ describe("checkSource integration", () => {
       const result = await checkSource(mockClaudeBlogSource);
 
       expect(result.hasChanged).toBe(false);
-      expect(hashStore.writeStoredData).not.toHaveBeenCalled();
+      expectNothingAnnounced("Newest Post");
     });
 
     it("no new wayback entries returns storedIdentifier, preventing false positive", async () => {
@@ -738,7 +1943,7 @@ describe("checkSource integration", () => {
 
       // Parser fix: version === storedIdentifier → no change
       expect(result.hasChanged).toBe(false);
-      expect(hashStore.writeStoredData).not.toHaveBeenCalled();
+      expectNothingAnnounced("2025.01.17");
     });
   });
 
@@ -825,7 +2030,7 @@ describe("checkSource integration", () => {
         expect(result.hasChanged).toBe(true);
         expect(result.version).toEqual("1.2.0");
         expect(result.formattedChanges).toEqual(
-          "## [1.2.0]\n- Added feature X\n- Fixed bug Y"
+          "## [1.2.0]\n\n### Added\n- Added feature X\n\n### Fixed\n- Fixed bug Y"
         );
       });
 
@@ -843,7 +2048,7 @@ describe("checkSource integration", () => {
         expect(result.hasChanged).toBe(true);
         expect(result.version).toEqual("1.1.0 → 1.2.0");
         expect(result.formattedChanges).toEqual(
-          "## [1.1.0]\n- Added feature A\n\n---\n\n## [1.2.0]\n- Added feature X\n- Fixed bug Y"
+          "## [1.1.0]\n\n### Added\n- Added feature A\n\n---\n\n## [1.2.0]\n\n### Added\n- Added feature X\n\n### Fixed\n- Fixed bug Y"
         );
       });
     });
@@ -864,7 +2069,7 @@ describe("checkSource integration", () => {
         expect(result.hasChanged).toBe(true);
         expect(result.version).toEqual("New Feature Title:2025.01.17");
         expect(result.formattedChanges).toEqual(
-          "New Feature Title (2025.01.17)\n\nhttps://gemini.google/release-notes/"
+          "New Feature Title (2025.01.17)\nWhat: Added X\n\nhttps://gemini.google/release-notes/"
         );
       });
 
@@ -883,7 +2088,7 @@ describe("checkSource integration", () => {
         expect(result.hasChanged).toBe(true);
         expect(result.version).toEqual("New Feature Title:2025.01.17");
         expect(result.formattedChanges).toEqual(
-          "Older Feature (2025.01.15)\n\nNew Feature Title (2025.01.17)\n\nhttps://gemini.google/release-notes/"
+          "Older Feature (2025.01.15)\n\n---\n\nNew Feature Title (2025.01.17)\nWhat: Added X\n\nhttps://gemini.google/release-notes/"
         );
       });
     });
@@ -904,7 +2109,7 @@ describe("checkSource integration", () => {
         expect(result.hasChanged).toBe(true);
         expect(result.version).toEqual("New Feature Title:January 17, 2026");
         expect(result.formattedChanges).toEqual(
-          `New Feature Title (January 17, 2026)\n\n${mockChatGPTSource.releasePageUrl}`
+          `New Feature Title (January 17, 2026)\nDetails about the feature\n\n${mockChatGPTSource.releasePageUrl}`
         );
       });
 
@@ -923,7 +2128,7 @@ describe("checkSource integration", () => {
         expect(result.hasChanged).toBe(true);
         expect(result.version).toEqual("New Feature Title:January 17, 2026");
         expect(result.formattedChanges).toEqual(
-          `Older update (January 10, 2026)\n\nNew Feature Title (January 17, 2026)\n\n${mockChatGPTSource.releasePageUrl}`
+          `Older update (January 10, 2026)\n\n---\n\nNew Feature Title (January 17, 2026)\nDetails about the feature\n\n${mockChatGPTSource.releasePageUrl}`
         );
       });
     });
@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { keywordPattern, mentionsKeyword } from "../src/keywords";
+
+describe("mentionsKeyword", () => {
+  it("matches case-insensitively at the start of a word", () => {
+    expect(mentionsKeyword("- Deprecated the old flag", ["deprecat"])).toBe(true);
+    expect(mentionsKeyword("New APIs for agents", ["API"])).toBe(true);
+    expect(mentionsKeyword("(api) changes", ["API"])).toBe(true);
+    expect(mentionsKeyword("Rapid startup", ["API"])).toBe(false);
+  });
+
+  it("treats keywords as plain text", () => {
+    expect(mentionsKeyword("Supports C++ now", ["c++"])).toBe(true);
+    expect(mentionsKeyword("Supports C now", ["c++"])).toBe(false);
+  });
+});
+
+describe("keywordPattern", () => {
+  it("matches through the end of the word", () => {
+    expect("Hooks and webhooks".match(keywordPattern("hook"))).toEqual(["Hooks"]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { isMuted, matchesMuteRule } from "../src/mute";
+import { ReleaseSource } from "../src/config";
+import { ReleaseEntry } from "../src/changelog";
+
+const mockChatGPTSource: ReleaseSource = {
+  id: "chatgpt",
+  name: "ChatGPT",
+  url: "https://help.openai.com/chatgpt-release-notes",
+  parserType: "wayback",
+  stateFile: "chatgpt.json",
+  releasePageUrl: "https://help.openai.com/chatgpt-release-notes",
+};
+
+const mockGeminiSource: ReleaseSource = {
+  id: "gemini",
+  name: "Gemini",
+  url: "https://gemini.google/release-notes/",
+  parserType: "wayback",
+  stateFile: "gemini.json",
+  releasePageUrl: "https://gemini.google/release-notes/",
+};
+
+const entry = (title: string, body?: string, categories?: string[]): ReleaseEntry => ({
+  id: title,
+  title,
+  ...(body !== undefined && { body }),
+  ...(categories && { categories }),
+});
+
+describe("matchesMuteRule", () => {
+  it("matches the pattern on title and text, case-insensitively", () => {
+    const rule = { pattern: "now available in (the )?(EU|UK)" };
+
+    const eu = entry("Voice mode", "Now available in the EU.");
+    const plus = entry("Voice mode", "Available to Plus users.");
+
+    expect(matchesMuteRule(rule, mockChatGPTSource, eu)).toBe(true);
+    expect(matchesMuteRule(rule, mockChatGPTSource, plus)).toBe(false);
+  });
+
+  it("mutes entries with less text than minBodyLength", () => {
+    const rule = { minBodyLength: 20 };
+
+    expect(matchesMuteRule(rule, mockGeminiSource, entry("Tweak", "Smaller icons."))).toBe(true);
+    expect(matchesMuteRule(rule, mockGeminiSource, entry("Tweak"))).toBe(true);
+    expect(
+      matchesMuteRule(rule, mockGeminiSource, entry("Deep Research", "Now reads your Drive files too."))
+    ).toBe(false);
+  });
+
+  it("mutes entries whose categories are all listed", () => {
+    const rule = { categories: ["fixed", "Other"] };
+
+    expect(matchesMuteRule(rule, mockChatGPTSource, entry("1.0.1", "", ["Fixed"]))).toBe(true);
+    expect(matchesMuteRule(rule, mockChatGPTSource, entry("1.1.0", "", ["Added", "Fixed"]))).toBe(false);
+    expect(matchesMuteRule(rule, mockChatGPTSource, entry("1.1.0", ""))).toBe(false);
+  });
+
+  it("counts bullets that fit no category as Other", () => {
+    const mixed: ReleaseEntry = {
+      ...entry("2.1.0", "- Fixed a crash\n- Opus 5 in the model picker", ["Fixed"]),
+      uncategorized: true,
+    };
+
+    expect(matchesMuteRule({ categories: ["Fixed"] }, mockChatGPTSource, mixed)).toBe(false);
+    expect(matchesMuteRule({ categories: ["Fixed", "Other"] }, mockChatGPTSource, mixed)).toBe(true);
+  });
+
+  it("requires every condition the rule sets", () => {
+    const rule = { sources: ["gemini"], pattern: "rolling out" };
+
+    expect(matchesMuteRule(rule, mockGeminiSource, entry("Rolling out to more countries"))).toBe(true);
+    expect(matchesMuteRule(rule, mockChatGPTSource, entry("Rolling out to more countries"))).toBe(false);
+  });
+});
+
+describe("isMuted", () => {
+  it("mutes entries that any rule matches", () => {
+    const rules = [{ pattern: "^UI" }, { minBodyLength: 5 }];
+
+    expect(isMuted(rules, mockGeminiSource, entry("UI polish", "Rounder corners"))).toBe(true);
+    expect(isMuted(rules, mockGeminiSource, entry("Canvas", "Tiny"))).toBe(true);
+    expect(isMuted(rules, mockGeminiSource, entry("Canvas", "Share canvases"))).toBe(false);
+    expect(isMuted([], mockGeminiSource, entry("UI polish"))).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createNotifier, Notification } from "../src/notifier";
+import { ReleaseSource } from "../src/config";
+import { sendEmailNotification } from "../src/email";
+
+vi.mock("../src/logger", () => ({
+  info: vi.fn(),
+  success: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+vi.mock("../src/email", () => ({
+  sendEmailNotification: vi.fn(),
+}));
+
+const source: ReleaseSource = {
+  id: "claude-code",
+  name: "Claude Code",
+  url: "https://example.com/CHANGELOG.md",
+  parserType: "markdown",
+  stateFile: "claude-code.json",
+  releasePageUrl: "https://example.com/changelog",
+};
+
+const notification: Notification = {
+  source,
+  change: { kind: "new-entry", version: "1.2.0", formattedChanges: "## [1.2.0]\n- Added X" },
+  test: false,
+};
+
+describe("createNotifier", () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    process.env.NOTIFIER_TEST_URL = "https://example.com/hook";
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    delete process.env.NOTIFIER_TEST_URL;
+  });
+
+  function postedBody() {
+    return JSON.parse((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body);
+  }
+
+  it("defaults to a Slack Workflow Builder payload", async () => {
+    const result = await createNotifier({ webhookUrlEnv: "NOTIFIER_TEST_URL" }).send(notification);
+
+    expect(result.success).toBe(true);
+    expect(postedBody()).toEqual({
+      source: "Claude Code",
+      version: "1.2.0",
+      changes: "## [1.2.0]\n- Added X",
+      test: "no",
+    });
+  });
+
+  it("passes the Slack format through", async () => {
+    await createNotifier({ webhookUrlEnv: "NOTIFIER_TEST_URL", format: "blocks" }).send(notification);
+
+    expect(postedBody().blocks[0].type).toBe("header");
+  });
+
+  it("sends Discord embeds linked to the release page", async () => {
+    await createNotifier({ type: "discord", webhookUrlEnv: "NOTIFIER_TEST_URL" }).send(notification);
+
+    expect(postedBody().embeds[0]).toMatchObject({
+      title: "Claude Code 1.2.0",
+      url: "https://example.com/changelog",
+    });
+  });
+
+  it("sends Teams Adaptive Cards", async () => {
+    await createNotifier({ type: "teams", webhookUrlEnv: "NOTIFIER_TEST_URL" }).send({
+      ...notification,
+      test: true,
+    });
+
+    const card = postedBody().attachments[0].content;
+    expect(card.type).toBe("AdaptiveCard");
+    expect(card.body[card.body.length - 1].text).toBe("Test notification");
+  });
+
+  it("sends the target's mention with priority changes only", async () => {
+    const priority = {
+      ...notification,
+      change: { ...notification.change, watchMatches: ["MCP"] },
+    };
+    const send = async (target: Parameters<typeof createNotifier>[0], n: Notification) => {
+      vi.mocked(global.fetch).mockClear();
+      await createNotifier({ webhookUrlEnv: "NOTIFIER_TEST_URL", priorityMention: "<!here>", ...target }).send(n);
+      return postedBody();
+    };
+
+    expect((await send({}, priority)).changes).toBe("<!here>\n\n## [1.2.0]\n- Added X");
+    expect((await send({}, notification)).changes).toBe("## [1.2.0]\n- Added X");
+    expect((await send({ format: "blocks" }, priority)).blocks[1]).toEqual({
+      type: "section",
+      text: { type: "mrkdwn", text: "<!here>" },
+    });
+    expect((await send({ type: "discord", priorityMention: "@here" }, priority)).content).toBe("@here");
+    expect((await send({ type: "discord", priorityMention: "@here" }, notification)).content).toBeUndefined();
+    expect((await send({ type: "teams", priorityMention: "Priority" }, priority)).attachments[0].content.body[1]).toMatchObject({
+      text: "Priority",
+      color: "Attention",
+    });
+  });
+
+  it("renders the template of generic webhooks", async () => {
+    await createNotifier({
+      type: "webhook",
+      webhookUrlEnv: "NOTIFIER_TEST_URL",
+      template: { id: "{{sourceId}}", kind: "{{kind}}", url: "{{link}}", title: "{{source}} {{version}}" },
+    }).send(notification);
+
+    expect(postedBody()).toEqual({
+      id: "claude-code",
+      kind: "new-entry",
+      url: "https://example.com/changelog",
+      title: "Claude Code 1.2.0",
+    });
+  });
+
+  it("renders the body template with the entries", async () => {
+    await createNotifier({
+      webhookUrlEnv: "NOTIFIER_TEST_URL",
+      bodyTemplate:
+        "{{entryCount}} new ({{versionRange.from}} to {{versionRange.to}}):\n{{#entries}}\n• <{{url}}|{{title}}>\n{{/entries}}\n{{link}}",
+    }).send({
+      ...notification,
+      change: {
+        ...notification.change,
+        sections: ["## [1.1.0]", "## [1.2.0]"],
+        entries: [
+          { id: "1.1.0", title: "1.1.0", url: "https://example.com/1.1.0" },
+          { id: "1.2.0", title: "1.2.0", url: "https://example.com/1.2.0" },
+        ],
+      },
+    });
+
+    expect(postedBody().changes).toBe(
+      "2 new (1.1.0 to 1.2.0):\n• <https://example.com/1.1.0|1.1.0>\n• <https://example.com/1.2.0|1.2.0>\nhttps://example.com/changelog"
+    );
+  });
+
+  it("gives webhook templates the structured data", async () => {
+    await createNotifier({
+      type: "webhook",
+      webhookUrlEnv: "NOTIFIER_TEST_URL",
+      template: '{"versions": "{{#entries}}{{id}}{{^last}}, {{/last}}{{/entries}}", "test": {{isTest}}}',
+    }).send({
+      ...notification,
+      change: {
+        ...notification.change,
+        entries: [
+          { id: "1.1.0", title: "1.1.0" },
+          { id: "1.2.0", title: "1.2.0" },
+        ],
+      },
+    });
+
+    expect(postedBody()).toEqual({ versions: "1.1.0, 1.2.0", test: false });
+  });
+
+  it("fails when the webhook env var is not set", async () => {
+    const result = await createNotifier({ type: "discord", webhookUrlEnv: "UNSET_WEBHOOK_URL" }).send(
+      notification
+    );
+
+    expect(result).toEqual({ success: false, error: "No webhook URL configured" });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it("sends email with SMTP settings and per-source recipients", async () => {
+    vi.mocked(sendEmailNotification).mockResolvedValue({ success: true });
+    process.env.NOTIFIER_SMTP_USER = "user";
+    process.env.NOTIFIER_SMTP_PASSWORD = "secret";
+
+    const target = {
+      type: "email" as const,
+      smtpHost: "smtp.example.com",
+      smtpUserEnv: "NOTIFIER_SMTP_USER",
+      smtpPasswordEnv: "NOTIFIER_SMTP_PASSWORD",
+      from: "watch@example.com",
+      to: ["team@example.com"],
+      toBySource: { "claude-code": ["cli@example.com"] },
+    };
+    const result = await createNotifier(target).send(notification);
+    await createNotifier(target).send({ ...notification, source: { ...source, id: "other" } });
+    await createNotifier(target).send({ ...notification, source: { ...source, id: "constructor" } });
+
+    expect(result.success).toBe(true);
+    const calls = vi.mocked(sendEmailNotification).mock.calls;
+    expect(calls[0][0]).toEqual({
+      host: "smtp.example.com",
+      port: 587,
+      security: "starttls",
+      username: "user",
+      password: "secret",
+    });
+    expect(calls[0][2]).toEqual({
+      from: "watch@example.com",
+      to: ["cli@example.com"],
+      link: "https://example.com/changelog",
+    });
+    expect(calls[1][2].to).toEqual(["team@example.com"]);
+    expect(calls[2][2].to).toEqual(["team@example.com"]);
+
+    delete process.env.NOTIFIER_SMTP_USER;
+    delete process.env.NOTIFIER_SMTP_PASSWORD;
+  });
+});
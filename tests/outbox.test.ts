@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import fs from "fs";
+import {
+  deliverOutbox,
+  OUTBOX_MAX_ATTEMPTS,
+  OutboxItem,
+  queueNotifications,
+  readOutbox,
+  retryDelay,
+  writeOutbox,
+} from "../src/outbox";
+import { Change } from "../src/changelog";
+import { DIGEST_SOURCE } from "../src/digest";
+import { ReleaseSource, SourceRegistry } from "../src/config";
+import { Notifier } from "../src/notifier";
+
+vi.mock("fs");
+
+vi.mock("../src/logger", () => ({
+  info: vi.fn(),
+  success: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+const source: ReleaseSource = {
+  id: "claude-code",
+  name: "Claude Code",
+  url: "https://example.com/CHANGELOG.md",
+  parserType: "markdown",
+  stateFile: "claude-code.json",
+  releasePageUrl: "https://example.com/changelog",
+};
+
+const registry: SourceRegistry = {
+  sources: { "claude-code": source },
+  targets: { slack: { webhookUrlEnv: "SLACK_WEBHOOK_URL" }, ops: { webhookUrlEnv: "OPS_WEBHOOK_URL" } },
+  routes: [],
+  watchlist: [],
+  mute: [],
+};
+
+const change: Change = { kind: "new-entry", version: "1.2.0", formattedChanges: "- Added X" };
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+function notifier(...results: boolean[]): Notifier {
+  const send = vi.fn();
+  for (const success of results) {
+    send.mockResolvedValueOnce(success ? { success } : { success, error: "HTTP 500" });
+  }
+  return { send };
+}
+
+describe("outbox", () => {
+  // In-memory outbox file
+  let file: string | null;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    file = null;
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockImplementation(() => {
+      if (file === null) throw new Error("ENOENT");
+      return file;
+    });
+    vi.mocked(fs.writeFileSync).mockImplementation((_, data) => {
+      file = data as string;
+    });
+  });
+
+  it("reads an empty outbox when there is no file", () => {
+    expect(readOutbox()).toEqual([]);
+  });
+
+  it("queues one item per target, due immediately", () => {
+    const items = queueNotifications("claude-code", change, ["slack", "ops"], now);
+    writeOutbox(items);
+
+    expect(readOutbox()).toEqual([
+      expect.objectContaining({ target: "slack", change, attempts: 0, nextAttemptAt: now.toISOString() }),
+      expect.objectContaining({ target: "ops", change, attempts: 0, nextAttemptAt: now.toISOString() }),
+    ]);
+    expect(items[0].id).not.toBe(items[1].id);
+  });
+
+  it("removes delivered items and reschedules failed ones", async () => {
+    writeOutbox(queueNotifications("claude-code", change, ["slack", "ops"], now));
+    const notifiers = { slack: notifier(true), ops: notifier(false) };
+
+    const result = await deliverOutbox(registry, notifiers, { now });
+
+    expect(result).toEqual({ delivered: 1, failed: 1 });
+    expect(notifiers.slack.send).toHaveBeenCalledWith({ source, change, test: false });
+    expect(readOutbox()).toEqual([
+      expect.objectContaining({
+        target: "ops",
+        attempts: 1,
+        nextAttemptAt: "2026-03-01T12:15:00.000Z",
+        lastError: "HTTP 500",
+      }),
+    ]);
+  });
+
+  it("resumes a split notification after the messages already delivered", async () => {
+    writeOutbox(queueNotifications("claude-code", change, ["slack"], now));
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce({ success: false, error: "Message 3/4: HTTP 500", partsSent: 2 })
+      .mockResolvedValueOnce({ success: false, error: "Message 4/4: HTTP 500", partsSent: 3 })
+      .mockResolvedValueOnce({ success: true });
+    const notifiers = { slack: { send } };
+
+    await deliverOutbox(registry, notifiers, { now });
+    expect(readOutbox()[0].partsSent).toBe(2);
+    await deliverOutbox(registry, notifiers, { now: new Date("2026-03-02T12:00:00.000Z") });
+    await deliverOutbox(registry, notifiers, { now: new Date("2026-03-03T12:00:00.000Z") });
+
+    expect(send.mock.calls.map(([n]) => n.partsSent)).toEqual([undefined, 2, 3]);
+    expect(readOutbox()).toEqual([]);
+  });
+
+  it("waits for the retry time and backs off", async () => {
+    writeOutbox(queueNotifications("claude-code", change, ["ops"], now));
+    const notifiers = { ops: notifier(false, false) };
+
+    await deliverOutbox(registry, notifiers, { now });
+    await deliverOutbox(registry, notifiers, { now: new Date("2026-03-01T12:10:00.000Z") });
+    expect(notifiers.ops.send).toHaveBeenCalledTimes(1);
+
+    await deliverOutbox(registry, notifiers, { now: new Date("2026-03-01T12:15:00.000Z") });
+    expect(notifiers.ops.send).toHaveBeenCalledTimes(2);
+    expect(readOutbox()[0]).toMatchObject({ attempts: 2, nextAttemptAt: "2026-03-01T12:45:00.000Z" });
+  });
+
+  it("delivers only the given items", async () => {
+    const old = queueNotifications("claude-code", change, ["slack"], now);
+    const fresh = queueNotifications("claude-code", { ...change, version: "1.3.0" }, ["slack"], now);
+    writeOutbox([...old, ...fresh]);
+    const notifiers = { slack: notifier(true) };
+
+    await deliverOutbox(registry, notifiers, { now, ids: fresh.map((i) => i.id) });
+
+    expect(notifiers.slack.send).toHaveBeenCalledTimes(1);
+    expect(readOutbox()).toEqual(old);
+  });
+
+  it("holds follow-ups of an entry until its queued announcement is delivered", async () => {
+    const entry = { id: "1.1.0", title: "1.1.0" };
+    const announced = { ...change, version: "1.1.0", entries: [entry] };
+    const edited: Change = {
+      kind: "entry-updated",
+      version: "Updated: 1.1.0",
+      formattedChanges: "+ X",
+      entries: [entry],
+    };
+    const [announcement] = queueNotifications("claude-code", announced, ["ops"], now);
+    writeOutbox([{ ...announcement, attempts: 1, nextAttemptAt: "2026-03-01T13:00:00.000Z" }]);
+    const followUp = [
+      ...queueNotifications("claude-code", edited, ["ops", "slack"], now),
+      ...queueNotifications("claude-code", change, ["ops"], now),
+    ];
+    writeOutbox([...readOutbox(), ...followUp]);
+    const notifiers = { ops: notifier(true, true, true), slack: notifier(true) };
+
+    // The announcement to ops is still waiting for its retry
+    const result = await deliverOutbox(registry, notifiers, { now, ids: followUp.map((i) => i.id) });
+
+    expect(result).toEqual({ delivered: 2, failed: 0 });
+    expect(notifiers.slack.send).toHaveBeenCalledWith({ source, change: edited, test: false });
+    expect(notifiers.ops.send).toHaveBeenCalledWith({ source, change, test: false });
+    expect(readOutbox().map((i) => [i.target, i.change.version])).toEqual([
+      ["ops", "1.1.0"],
+      ["ops", "Updated: 1.1.0"],
+    ]);
+
+    // Once the announcement goes out, the edit follows in the same run
+    await deliverOutbox(registry, notifiers, { now: new Date("2026-03-01T13:00:00.000Z") });
+
+    expect(notifiers.ops.send.mock.calls.slice(1).map(([n]) => n.change.version)).toEqual([
+      "1.1.0",
+      "Updated: 1.1.0",
+    ]);
+    expect(readOutbox()).toEqual([]);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const [item] = queueNotifications("claude-code", change, ["ops"], now);
+    writeOutbox([{ ...item, attempts: OUTBOX_MAX_ATTEMPTS - 1 }]);
+
+    const result = await deliverOutbox(registry, { ops: notifier(false) }, { now });
+
+    expect(result).toEqual({ delivered: 0, failed: 1 });
+    expect(readOutbox()).toEqual([]);
+  });
+
+  it("sends digests from the digest sender", async () => {
+    const digest: Change = { kind: "digest", version: "Daily digest, 2026-03-01", formattedChanges: "…" };
+    writeOutbox(queueNotifications(DIGEST_SOURCE.id, digest, ["slack"], now));
+    const notifiers = { slack: notifier(true) };
+
+    await deliverOutbox(registry, notifiers, { now });
+
+    expect(notifiers.slack.send).toHaveBeenCalledWith({ source: DIGEST_SOURCE, change: digest, test: false });
+  });
+
+  it("drops items whose source or target is gone", async () => {
+    const items: OutboxItem[] = [
+      ...queueNotifications("removed-source", change, ["slack"], now),
+      ...queueNotifications("claude-code", change, ["removed-target"], now),
+    ];
+    writeOutbox(items);
+    const notifiers = { slack: notifier() };
+
+    await deliverOutbox(registry, notifiers, { now });
+
+    expect(notifiers.slack.send).not.toHaveBeenCalled();
+    expect(readOutbox()).toEqual([]);
+  });
+});
+
+describe("retryDelay", () => {
+  it("doubles up to a day", () => {
+    expect(retryDelay(1)).toBe(15 * 60 * 1000);
+    expect(retryDelay(3)).toBe(60 * 60 * 1000);
+    expect(retryDelay(9)).toBe(24 * 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { matchesRule, routeChange } from "../src/routing";
+import { ReleaseSource, SourceRegistry } from "../src/config";
+import { Change } from "../src/changelog";
+
+const mockClaudeSource: ReleaseSource = {
+  id: "claude-code",
+  name: "Claude Code",
+  url: "https://example.com/changelog.md",
+  parserType: "markdown",
+  stateFile: "claude-code.json",
+  releasePageUrl: "https://example.com/changelog",
+};
+
+const mockChatGPTSource: ReleaseSource = {
+  id: "chatgpt",
+  name: "ChatGPT",
+  url: "https://help.openai.com/chatgpt-release-notes",
+  parserType: "wayback",
+  stateFile: "chatgpt.json",
+  releasePageUrl: "https://help.openai.com/chatgpt-release-notes",
+};
+
+const mockGeminiSource: ReleaseSource = {
+  id: "gemini",
+  name: "Gemini",
+  url: "https://gemini.google/release-notes/",
+  parserType: "wayback",
+  stateFile: "gemini.json",
+  releasePageUrl: "https://gemini.google/release-notes/",
+};
+
+const change = (formattedChanges: string, kind: Change["kind"] = "new-entry"): Change => ({
+  kind,
+  version: "1.2.0",
+  formattedChanges,
+});
+
+const registry: SourceRegistry = {
+  sources: {
+    "claude-code": mockClaudeSource,
+    chatgpt: mockChatGPTSource,
+    gemini: mockGeminiSource,
+  },
+  targets: {
+    "dev-tools": { webhookUrlEnv: "DEV_TOOLS_WEBHOOK_URL" },
+    product: { webhookUrlEnv: "PRODUCT_WEBHOOK_URL" },
+    platform: { webhookUrlEnv: "PLATFORM_WEBHOOK_URL" },
+  },
+  routes: [
+    { sources: ["claude-code"], targets: ["dev-tools"] },
+    { sources: ["chatgpt"], targets: ["product"] },
+    { keywords: ["deprecat", "breaking", "API"], targets: ["platform"] },
+  ],
+  watchlist: [],
+  mute: [],
+};
+
+describe("matchesRule", () => {
+  it("requires every condition the rule sets", () => {
+    const rule = { sources: ["claude-code"], kinds: ["entry-updated" as const], targets: ["t"] };
+
+    expect(matchesRule(rule, mockClaudeSource, change("x", "entry-updated"))).toBe(true);
+    expect(matchesRule(rule, mockClaudeSource, change("x"))).toBe(false);
+    expect(matchesRule(rule, mockChatGPTSource, change("x", "entry-updated"))).toBe(false);
+    expect(matchesRule({ targets: ["t"] }, mockGeminiSource, change("x"))).toBe(true);
+  });
+
+  it("matches priority rules only for changes mentioning watched terms", () => {
+    const rule = { priority: true, targets: ["t"] };
+
+    expect(matchesRule(rule, mockGeminiSource, { ...change("MCP"), watchMatches: ["MCP"] })).toBe(true);
+    expect(matchesRule(rule, mockGeminiSource, change("MCP"))).toBe(false);
+  });
+
+  it("looks for keywords in the text, not in link URLs", () => {
+    const rule = { keywords: ["api"], targets: ["t"] };
+    const linked =
+      "- Added [tool search](https://example.com/docs/api-reference)\n\nhttps://example.com/api/changelog";
+
+    expect(matchesRule(rule, mockGeminiSource, change(linked))).toBe(false);
+    expect(matchesRule(rule, mockGeminiSource, change(`- Faster API calls\n\n${linked}`))).toBe(true);
+  });
+});
+
+describe("routeChange", () => {
+  it("routes by source", () => {
+    expect(routeChange(registry, mockClaudeSource, change("- Fixed a crash"))).toEqual(["dev-tools"]);
+    expect(routeChange(registry, mockChatGPTSource, change("Memory improvements"))).toEqual(["product"]);
+  });
+
+  it("fans out to every matching rule", () => {
+    expect(routeChange(registry, mockClaudeSource, change("- Breaking: removed --foo"))).toEqual([
+      "dev-tools",
+      "platform",
+    ]);
+  });
+
+  it("adds keyword targets to the default targets of a source without notify", () => {
+    // No notify targets and no source rule: gemini changes go to every target,
+    // whether or not they also match the keyword rule
+    const everyTarget = ["dev-tools", "product", "platform"];
+
+    expect(routeChange(registry, mockGeminiSource, change("The Gemini API now supports…"))).toEqual(
+      everyTarget
+    );
+    expect(routeChange(registry, mockGeminiSource, change("Faster answers"))).toEqual(everyTarget);
+  });
+
+  it("keeps the source's notify targets and drops duplicates", () => {
+    const notified = { ...mockClaudeSource, notify: ["platform", "product"] };
+
+    expect(routeChange(registry, notified, change("- Deprecated X"))).toEqual([
+      "platform",
+      "product",
+      "dev-tools",
+    ]);
+  });
+
+  it("sends unrouted changes to every target", () => {
+    expect(routeChange(registry, mockGeminiSource, change("Faster answers"))).toEqual([
+      "dev-tools",
+      "product",
+      "platform",
+    ]);
+    expect(routeChange({ ...registry, routes: [] }, mockClaudeSource, change("x"))).toEqual([
+      "dev-tools",
+      "product",
+      "platform",
+    ]);
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { sendSlackNotification, SlackPayload } from "../src/slack";
+import {
+  buildSlackBlocks,
+  sendSlackNotification,
+  SlackPayload,
+  splitSlackMessage,
+  toMrkdwn,
+} from "../src/slack";
 
 vi.mock("../src/logger", () => ({
   info: vi.fn(),
@@ -98,3 +104,272 @@ describe("sendSlackNotification", () => {
     expect(body.test).toBe("yes");
   });
 });
+
+describe("toMrkdwn", () => {
+  it("converts headings, emphasis, links and bullets", () => {
+    const markdown = [
+      "## [1.2.0]",
+      "- **Breaking:** removed `--foo`",
+      "* Added *experimental* [hooks](https://docs.example.com/hooks)",
+      "- ~~Fixed~~ Reverted X",
+    ].join("\n");
+
+    expect(toMrkdwn(markdown)).toBe(
+      [
+        "*[1.2.0]*",
+        "• *Breaking:* removed `--foo`",
+        "• Added _experimental_ <https://docs.example.com/hooks|hooks>",
+        "• ~Fixed~ Reverted X",
+      ].join("\n")
+    );
+  });
+
+  it("escapes control characters outside of links", () => {
+    expect(toMrkdwn("Use <T> & friends")).toBe("Use &lt;T&gt; &amp; friends");
+  });
+
+  it("leaves code blocks alone", () => {
+    expect(toMrkdwn("```\n- old\n+ **new**\n```")).toBe("```\n- old\n+ **new**\n```");
+  });
+});
+
+describe("buildSlackBlocks", () => {
+  const multiVersion: SlackPayload = {
+    source: "Claude Code",
+    version: "1.1.0 → 1.2.0",
+    changes: "## [1.1.0]\n- Added A\n\n---\n\n## [1.2.0]\n- Added B",
+    test: "no",
+  };
+
+  it("lays out a header, a section per entry and dividers", () => {
+    const message = buildSlackBlocks(multiVersion);
+
+    expect(message.text).toBe("Claude Code: 1.1.0 → 1.2.0");
+    expect(message.blocks).toEqual([
+      {
+        type: "header",
+        text: { type: "plain_text", text: "Claude Code 1.1.0 → 1.2.0", emoji: true },
+      },
+      { type: "section", text: { type: "mrkdwn", text: "*[1.1.0]*\n• Added A" } },
+      { type: "divider" },
+      { type: "section", text: { type: "mrkdwn", text: "*[1.2.0]*\n• Added B" } },
+    ]);
+  });
+
+  it("moves standalone links into a context block", () => {
+    const message = buildSlackBlocks(
+      {
+        source: "Gemini",
+        version: "Feature:2026.01.12",
+        changes: "Feature A (2026.01.10)\n\nFeature B (2026.01.12)\n\nhttps://gemini.google/release-notes/",
+        test: "yes",
+      },
+      ["Feature A (2026.01.10)", "Feature B (2026.01.12)"]
+    );
+
+    expect(message.blocks.filter((b) => b.type === "section")).toHaveLength(2);
+    expect(message.blocks[message.blocks.length - 1]).toEqual({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: "<https://gemini.google/release-notes/>  •  _Test notification_",
+        },
+      ],
+    });
+  });
+
+  it("keeps blocks within Slack's text limits", () => {
+    const longEntry = Array.from({ length: 200 }, (_, i) => `- Change number ${i} with some detail`).join("\n");
+    const message = buildSlackBlocks({
+      ...multiVersion,
+      version: "x".repeat(200),
+      changes: longEntry,
+    });
+
+    expect(message.blocks[0].text!.text.length).toBeLessThanOrEqual(150);
+    const sections = message.blocks.filter((b) => b.type === "section");
+    expect(sections.length).toBeGreaterThan(1);
+    expect(sections.every((b) => b.text!.text.length <= 3000)).toBe(true);
+  });
+});
+
+describe("sendSlackNotification formats", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("posts a Block Kit message when the format is blocks", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: true });
+
+    await sendSlackNotification("https://hooks.slack.com/test", testPayload, {
+      format: "blocks",
+    });
+
+    const body = JSON.parse(
+      (global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body
+    );
+    expect(body).toEqual(buildSlackBlocks(testPayload));
+    expect(body.source).toBeUndefined();
+  });
+});
+
+describe("splitSlackMessage", () => {
+  // Ten versions of ~500 characters each, joined like parseMarkdown does
+  const versions = Array.from({ length: 10 }, (_, i) =>
+    [`## [1.${i}.0]`, ...Array.from({ length: 12 }, (_, j) => `- Change ${j} of release 1.${i}.0 with details`)].join("\n")
+  );
+  const bigPayload: SlackPayload = {
+    source: "Claude Code",
+    version: "1.0.0 → 1.9.0",
+    changes: versions.join("\n\n---\n\n"),
+    test: "no",
+  };
+
+  it("leaves a message that fits alone", () => {
+    expect(splitSlackMessage(testPayload)).toEqual([
+      { payload: testPayload, sections: ["New features added"] },
+    ]);
+  });
+
+  it("splits at entry boundaries into numbered messages", () => {
+    const parts = splitSlackMessage(bigPayload, { maxLength: 1500 });
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.map((p) => p.payload.version)).toEqual(
+      parts.map((_, i) => `1.0.0 → 1.9.0 (${i + 1}/${parts.length})`)
+    );
+    expect(parts.every((p) => p.payload.changes.length <= 1500)).toBe(true);
+    // No entry is cut, and all of them arrive in order
+    expect(parts.flatMap((p) => p.sections)).toEqual(versions);
+    expect(parts[0].payload.changes).toBe(parts[0].sections.join("\n\n---\n\n"));
+  });
+
+  it("keeps every Block Kit message within 50 blocks", () => {
+    // Entries over 3000 characters take two sections each
+    const longEntries = Array.from({ length: 30 }, (_, i) =>
+      [
+        `## [2.${i}.0]`,
+        ...Array.from({ length: 80 }, (_, j) => `- Change ${j} of release 2.${i}.0 with details`),
+      ].join("\n")
+    );
+    // One entry that takes more sections than a message can hold
+    const hugeEntry = Array.from({ length: 6000 }, (_, j) => `- Change ${j} with some details`).join("\n");
+
+    for (const changes of [longEntries.join("\n\n---\n\n"), hugeEntry]) {
+      const parts = splitSlackMessage({ ...bigPayload, changes }, { maxLength: 1_000_000 });
+
+      expect(parts.length).toBeGreaterThan(1);
+      for (const part of parts) {
+        const message = buildSlackBlocks(part.payload, part.sections, "<!here>");
+        expect(message.blocks.length).toBeLessThanOrEqual(50);
+      }
+      expect(parts.flatMap((p) => p.sections).join("\n")).toBe(
+        changes.replace(/\n\n---\n\n/g, "\n")
+      );
+    }
+  });
+
+  it("cuts a single oversized entry at line boundaries", () => {
+    const parts = splitSlackMessage(
+      { ...bigPayload, changes: versions[0] },
+      { maxLength: 200 }
+    );
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every((p) => p.payload.changes.length <= 200)).toBe(true);
+    expect(parts.map((p) => p.payload.changes).join("\n")).toBe(versions[0]);
+  });
+
+  it("keeps a trailing page link on the last message", () => {
+    const sections = versions.map((v) => v.split("\n")[1]);
+    const parts = splitSlackMessage(
+      {
+        ...bigPayload,
+        changes: `${sections.join("\n\n")}\n\nhttps://example.com/notes`,
+      },
+      { sections, maxLength: 200 }
+    );
+
+    expect(parts[parts.length - 1].payload.changes.endsWith("\n\nhttps://example.com/notes")).toBe(true);
+    expect(parts[0].payload.changes).not.toContain("https://example.com/notes");
+  });
+
+  it("collapses to a summary with a link past the threshold", () => {
+    const parts = splitSlackMessage(bigPayload, {
+      maxLength: 1500,
+      collapseAfter: 2,
+      link: "https://example.com/changelog",
+    });
+
+    expect(parts).toHaveLength(1);
+    expect(parts[0].payload.version).toBe("1.0.0 → 1.9.0");
+    expect(parts[0].payload.changes).toBe(
+      [
+        "10 entries, too long to post in full:",
+        versions.map((v) => `- ${v.split("\n")[0].replace("## ", "")}`).join("\n"),
+        "https://example.com/changelog",
+      ].join("\n\n")
+    );
+  });
+});
+
+describe("sendSlackNotification splitting", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const payload: SlackPayload = {
+    source: "Claude Code",
+    version: "1.1.0 → 1.2.0",
+    changes: "## [1.1.0]\n- Added A\n\n---\n\n## [1.2.0]\n- Added B",
+    test: "no",
+  };
+
+  it("posts each part in order", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: true });
+
+    const result = await sendSlackNotification("https://hooks.slack.com/test", payload, {
+      maxLength: 20,
+    });
+
+    expect(result.success).toBe(true);
+    const bodies = (global.fetch as ReturnType<typeof vi.fn>).mock.calls.map((c) =>
+      JSON.parse(c[1].body)
+    );
+    expect(bodies.map((b) => b.version)).toEqual(["1.1.0 → 1.2.0 (1/2)", "1.1.0 → 1.2.0 (2/2)"]);
+    expect(bodies[1].changes).toBe("## [1.2.0]\n- Added B");
+  });
+
+  it("stops at the first failed part and says which one failed", async () => {
+    global.fetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true })
+      .mockResolvedValueOnce({ ok: false, status: 400, text: () => Promise.resolve("too_long") });
+
+    const result = await sendSlackNotification("https://hooks.slack.com/test", payload, {
+      maxLength: 20,
+    });
+
+    expect(result).toEqual({ success: false, error: "Message 2/2: 400: too_long", partsSent: 1 });
+  });
+
+  it("skips the parts an earlier attempt posted", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: true });
+
+    const result = await sendSlackNotification("https://hooks.slack.com/test", payload, {
+      maxLength: 20,
+      skipParts: 1,
+    });
+
+    expect(result.success).toBe(true);
+    const bodies = (global.fetch as ReturnType<typeof vi.fn>).mock.calls.map((c) =>
+      JSON.parse(c[1].body)
+    );
+    expect(bodies.map((b) => b.version)).toEqual(["1.1.0 → 1.2.0 (2/2)"]);
+  });
+});
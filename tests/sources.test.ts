@@ -0,0 +1,376 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import { loadSources, validateRegistry } from "../src/sources";
+
+const minimalSource = {
+  id: "example",
+  name: "Example",
+  url: "https://example.com/CHANGELOG.md",
+  parserType: "markdown",
+};
+
+describe("loadSources", () => {
+  it("loads the bundled sources.json", () => {
+    const registry = loadSources(path.join(__dirname, "..", "sources.json"));
+
+    expect(Object.keys(registry.sources)).toEqual([
+      "claude-code",
+      "claude-blog",
+      "gemini",
+      "chatgpt",
+    ]);
+    expect(registry.sources["claude-code"].parserType).toBe("markdown");
+    expect(registry.sources.gemini.stateFile).toBe("gemini.json");
+    expect(registry.targets.slack.webhookUrlEnv).toBe("SLACK_WEBHOOK_URL");
+  });
+
+  it("throws a readable error when the file is missing", () => {
+    expect(() => loadSources("/nonexistent/sources.json")).toThrow(
+      "Cannot read sources file: /nonexistent/sources.json"
+    );
+  });
+});
+
+describe("validateRegistry", () => {
+  it("fills in defaults for optional fields", () => {
+    const registry = validateRegistry({ sources: [minimalSource] });
+
+    expect(registry.sources.example).toEqual({
+      ...minimalSource,
+      stateFile: "example.json",
+      releasePageUrl: "https://example.com/CHANGELOG.md",
+    });
+    expect(registry.targets).toEqual({
+      slack: { webhookUrlEnv: "SLACK_WEBHOOK_URL" },
+    });
+  });
+
+  it("keeps parser options and notify targets", () => {
+    const registry = validateRegistry({
+      targets: {
+        devtools: { webhookUrlEnv: "DEVTOOLS_WEBHOOK_URL" },
+        product: { webhookUrlEnv: "PRODUCT_WEBHOOK_URL" },
+      },
+      sources: [
+        { ...minimalSource, parserOptions: { foo: 1 }, notify: ["devtools"] },
+      ],
+    });
+
+    expect(registry.sources.example.parserOptions).toEqual({ foo: 1 });
+    expect(registry.sources.example.notify).toEqual(["devtools"]);
+  });
+
+  it("rejects an unknown parser type", () => {
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, parserType: "rss2" }] })
+    ).toThrow(/"parserType" must be one of markdown, wayback, feed, github-releases, npm, pypi/);
+  });
+
+  it("rejects missing required fields", () => {
+    expect(() =>
+      validateRegistry({ sources: [{ id: "example", parserType: "markdown" }] })
+    ).toThrow(/"name" must be a non-empty string[\s\S]*"url" must be/);
+  });
+
+  it("rejects duplicate ids", () => {
+    expect(() =>
+      validateRegistry({ sources: [minimalSource, minimalSource] })
+    ).toThrow(/duplicate id "example"/);
+  });
+
+  it("accepts ids that are also object property names", () => {
+    const registry = validateRegistry({ sources: [{ ...minimalSource, id: "constructor" }] });
+    expect(Object.keys(registry.sources)).toEqual(["constructor"]);
+  });
+
+  it("rejects shared state files", () => {
+    expect(() =>
+      validateRegistry({
+        sources: [
+          minimalSource,
+          { ...minimalSource, id: "other", stateFile: "example.json" },
+        ],
+      })
+    ).toThrow(/stateFile "example.json" is already used/);
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, id: "outbox" }] })
+    ).toThrow(/stateFile "outbox.json" is reserved/);
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, stateFile: "digest.json" }] })
+    ).toThrow(/stateFile "digest.json" is reserved/);
+    for (const stateFile of ["../../etc/evil.json", "sub/state.json", "sub\\state.json"]) {
+      expect(() => validateRegistry({ sources: [{ ...minimalSource, stateFile }] })).toThrow(
+        /"stateFile" must be a file name/
+      );
+    }
+  });
+
+  it("rejects reserved and malformed ids", () => {
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, id: "all" }] })
+    ).toThrow(/must not be one of all/);
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, id: "status" }] })
+    ).toThrow(/must not be one of all, status, history/);
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, id: "Has Spaces" }] })
+    ).toThrow(/lowercase letters, digits and dashes/);
+  });
+
+  it("requires owner/repo for github-releases sources", () => {
+    const github = { ...minimalSource, parserType: "github-releases" };
+
+    expect(() => validateRegistry({ sources: [github] })).toThrow(
+      /parserOptions.repo must be "owner\/repo"/
+    );
+    expect(() =>
+      validateRegistry({
+        sources: [{ ...github, parserOptions: { repo: "acme/tool", includeDrafts: "yes" } }],
+      })
+    ).toThrow(/parserOptions.includeDrafts must be a boolean/);
+    expect(
+      validateRegistry({ sources: [{ ...github, parserOptions: { repo: "acme/tool" } }] })
+        .sources.example.parserOptions
+    ).toEqual({ repo: "acme/tool" });
+  });
+
+  it("requires a package name for npm and pypi sources", () => {
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, parserType: "pypi" }] })
+    ).toThrow(/parserOptions.package must be a non-empty string/);
+  });
+
+  it("validates wayback fetch strategies", () => {
+    const page = { ...minimalSource, parserType: "wayback" };
+
+    expect(() =>
+      validateRegistry({ sources: [{ ...page, parserOptions: { strategies: ["live", "cache"] } }] })
+    ).toThrow(/parserOptions.strategies must be a non-empty list of live, wayback/);
+    expect(() =>
+      validateRegistry({ sources: [{ ...page, parserOptions: { strategies: [] } }] })
+    ).toThrow(/parserOptions.strategies/);
+  });
+
+  it("validates wayback extraction rules", () => {
+    const page = { ...minimalSource, parserType: "wayback" };
+    const invalid = (parserOptions: Record<string, unknown>) => () =>
+      validateRegistry({ sources: [{ ...page, parserOptions }] });
+
+    expect(invalid({ entryMode: "cards" })).toThrow(/parserOptions.entryMode must be one of/);
+    expect(invalid({ dateFormat: "dd/mm/yyyy" })).toThrow(/parserOptions.dateFormat must be one of/);
+    expect(invalid({ datePattern: "(" })).toThrow(/parserOptions.datePattern must be a valid regular expression/);
+    expect(invalid({ headingLevels: [7] })).toThrow(/parserOptions.headingLevels/);
+    expect(invalid({ maxBodyLength: -1 })).toThrow(/parserOptions.maxBodyLength must be a non-negative integer/);
+    expect(invalid({ fetchArticles: "yes" })).toThrow(/parserOptions.fetchArticles must be a boolean/);
+  });
+
+  it("validates the detectEdits switch", () => {
+    expect(
+      validateRegistry({ sources: [{ ...minimalSource, detectEdits: true }] }).sources.example
+        .detectEdits
+    ).toBe(true);
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, detectEdits: "yes" }] })
+    ).toThrow(/"detectEdits" must be a boolean/);
+  });
+
+  it("validates retractAfter", () => {
+    expect(
+      validateRegistry({ sources: [{ ...minimalSource, retractAfter: 0 }] }).sources.example
+        .retractAfter
+    ).toBe(0);
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, retractAfter: 1.5 }] })
+    ).toThrow(/"retractAfter" must be a whole number of checks/);
+  });
+
+  it("validates the payload format of targets", () => {
+    const registry = validateRegistry({
+      targets: { alerts: { webhookUrlEnv: "ALERTS_WEBHOOK_URL", format: "blocks" } },
+      sources: [minimalSource],
+    });
+    expect(registry.targets.alerts.format).toBe("blocks");
+
+    expect(() =>
+      validateRegistry({
+        targets: { alerts: { webhookUrlEnv: "ALERTS_WEBHOOK_URL", format: "attachments" } },
+        sources: [minimalSource],
+      })
+    ).toThrow(/targets.alerts: "format" must be one of workflow, blocks/);
+  });
+
+  it("validates message splitting settings of targets", () => {
+    const target = { webhookUrlEnv: "SLACK_WEBHOOK_URL" };
+    expect(
+      validateRegistry({
+        targets: { slack: { ...target, maxMessageLength: 2000, collapseAfter: 3 } },
+        sources: [minimalSource],
+      }).targets.slack
+    ).toEqual({ ...target, maxMessageLength: 2000, collapseAfter: 3 });
+    expect(() =>
+      validateRegistry({
+        targets: { slack: { ...target, collapseAfter: 0 } },
+        sources: [minimalSource],
+      })
+    ).toThrow(/targets.slack: "collapseAfter" must be a positive whole number/);
+  });
+
+  it("validates notifier types and their settings", () => {
+    const registry = validateRegistry({
+      targets: {
+        community: { type: "discord", webhookUrlEnv: "DISCORD_WEBHOOK_URL" },
+        ops: { type: "webhook", webhookUrlEnv: "OPS_WEBHOOK_URL", template: { text: "{{source}}" } },
+      },
+      sources: [minimalSource],
+    });
+    expect(registry.targets.community).toEqual({ type: "discord", webhookUrlEnv: "DISCORD_WEBHOOK_URL" });
+    expect(registry.targets.ops.template).toEqual({ text: "{{source}}" });
+
+    const invalid = (target: Record<string, unknown>) => () =>
+      validateRegistry({
+        targets: { t: { webhookUrlEnv: "T_WEBHOOK_URL", ...target } },
+        sources: [minimalSource],
+      });
+    expect(invalid({ type: "pager" })).toThrow(/"type" must be one of slack, discord, teams, webhook, email/);
+    expect(invalid({ type: "webhook" })).toThrow(/"template" must be a string, object or array/);
+    expect(invalid({ type: "teams", format: "blocks" })).toThrow(/"format" only applies to slack targets/);
+    expect(invalid({ template: "{}" })).toThrow(/"template" only applies to webhook targets/);
+    expect(invalid({ digest: "hourly" })).toThrow(/"digest" must be one of daily, weekly/);
+    expect(invalid({ bodyTemplate: "{{#entries}}{{title}}" })).toThrow(
+      /"bodyTemplate" is invalid: Unclosed section \{\{#entries\}\}/
+    );
+    expect(invalid({ type: "webhook", template: { text: "{{/x}}" } })).toThrow(
+      /"template" is invalid: Unexpected \{\{\/x\}\}/
+    );
+    expect(invalid({ type: "webhook", template: {}, bodyTemplate: "{{source}}" })).toThrow(
+      /"bodyTemplate" does not apply to webhook targets/
+    );
+    expect(validateRegistry({
+      targets: { t: { webhookUrlEnv: "T_WEBHOOK_URL", digest: "weekly" } },
+      sources: [minimalSource],
+    }).targets.t.digest).toBe("weekly");
+  });
+
+  it("validates email targets", () => {
+    const email = {
+      type: "email",
+      smtpHost: "smtp.example.com",
+      smtpUserEnv: "SMTP_USER",
+      smtpPasswordEnv: "SMTP_PASSWORD",
+      from: "Release Watch <watch@example.com>",
+      to: ["team@example.com"],
+    };
+    const registry = validateRegistry({ targets: { mail: email }, sources: [minimalSource] });
+    expect(registry.targets.mail).toEqual(email);
+
+    const invalid = (target: Record<string, unknown>) => () =>
+      validateRegistry({ targets: { mail: { ...email, ...target } }, sources: [minimalSource] });
+    expect(invalid({ smtpHost: "" })).toThrow(/"smtpHost" must be a non-empty string/);
+    expect(invalid({ smtpPort: 0 })).toThrow(/"smtpPort" must be a port number/);
+    expect(invalid({ smtpSecurity: "ssl" })).toThrow(/"smtpSecurity" must be one of starttls, tls, none/);
+    expect(invalid({ from: "watch" })).toThrow(/"from" must be an email address/);
+    expect(invalid({ to: [] })).toThrow(/"to" must be a non-empty list of email addresses/);
+    expect(invalid({ to: undefined })).toThrow(/"to" is required/);
+    expect(invalid({ to: undefined, toBySource: { example: ["a@example.com"] } })).toThrow(
+      /"to" is required/
+    );
+    expect(invalid({ toBySource: { unknown: ["a@example.com"] } })).toThrow(
+      /toBySource has unknown source "unknown"/
+    );
+    expect(invalid({ toBySource: { constructor: ["a@example.com"] } })).toThrow(
+      /toBySource has unknown source "constructor"/
+    );
+    expect(invalid({ maxMessageLength: 1000 })).toThrow(/"maxMessageLength" does not apply to email targets/);
+    expect(() =>
+      validateRegistry({
+        targets: { t: { webhookUrlEnv: "T_WEBHOOK_URL", from: "a@example.com" } },
+        sources: [minimalSource],
+      })
+    ).toThrow(/"from" only applies to email targets/);
+  });
+
+  it("validates routing rules", () => {
+    const targets = { slack: { webhookUrlEnv: "SLACK_WEBHOOK_URL" }, ops: { webhookUrlEnv: "OPS_WEBHOOK_URL" } };
+    const routes = [
+      { sources: ["example"], targets: ["slack"] },
+      { kinds: ["entry-retracted"], keywords: ["breaking"], targets: ["ops"] },
+    ];
+    expect(validateRegistry({ targets, routes, sources: [minimalSource] }).routes).toEqual(routes);
+    expect(validateRegistry({ sources: [minimalSource] }).routes).toEqual([]);
+
+    const invalid = (route: Record<string, unknown>) => () =>
+      validateRegistry({ targets, routes: [{ targets: ["ops"], ...route }], sources: [minimalSource] });
+    expect(invalid({ targets: [] })).toThrow(/routes\[0\]: "targets" must be a non-empty array/);
+    expect(invalid({ targets: ["teams"] })).toThrow(/routes\[0\]: unknown target "teams"/);
+    expect(invalid({ sources: ["missing"] })).toThrow(/routes\[0\]: unknown source "missing"/);
+    expect(invalid({ kinds: ["removed"] })).toThrow(/"kinds" must be a non-empty array of new-entry/);
+    expect(invalid({ keywords: [""] })).toThrow(/"keywords" must be a non-empty array/);
+    expect(() => validateRegistry({ routes: {}, sources: [minimalSource] })).toThrow(/"routes" must be an array/);
+    expect(validateRegistry({ targets, routes: [{ priority: true, targets: ["ops"] }], sources: [minimalSource] }).routes).toEqual([
+      { priority: true, targets: ["ops"] },
+    ]);
+    expect(invalid({ priority: "yes" })).toThrow(/"priority" must be a boolean/);
+  });
+
+  it("validates mute rules", () => {
+    const mute = [
+      { sources: ["example"], pattern: "rolling out" },
+      { minBodyLength: 40 },
+      { categories: ["Fixed"] },
+    ];
+    expect(validateRegistry({ mute, sources: [minimalSource] }).mute).toEqual(mute);
+    expect(validateRegistry({ sources: [minimalSource] }).mute).toEqual([]);
+
+    const invalid = (rule: Record<string, unknown>) => () =>
+      validateRegistry({ mute: [rule], sources: [minimalSource] });
+    expect(invalid({ sources: ["example"] })).toThrow(/mute\[0\]: needs "pattern", "minBodyLength" or "categories"/);
+    expect(invalid({ sources: ["missing"], pattern: "x" })).toThrow(/mute\[0\]: unknown source "missing"/);
+    expect(invalid({ pattern: "(" })).toThrow(/"pattern" must be a valid regular expression/);
+    expect(invalid({ minBodyLength: 0 })).toThrow(/"minBodyLength" must be a positive whole number/);
+    expect(invalid({ categories: [] })).toThrow(/"categories" must be a non-empty array/);
+    expect(() => validateRegistry({ mute: {}, sources: [minimalSource] })).toThrow(/"mute" must be an array/);
+  });
+
+  it("validates watchlists and priority mentions", () => {
+    const registry = validateRegistry({
+      watchlist: ["MCP", "/claude-(opus|sonnet)/i"],
+      targets: { slack: { webhookUrlEnv: "SLACK_WEBHOOK_URL", priorityMention: "<!here>" } },
+      sources: [{ ...minimalSource, watchlist: ["hooks"] }],
+    });
+    expect(registry.watchlist).toEqual(["MCP", "/claude-(opus|sonnet)/i"]);
+    expect(registry.sources.example.watchlist).toEqual(["hooks"]);
+    expect(registry.targets.slack.priorityMention).toBe("<!here>");
+    expect(validateRegistry({ sources: [minimalSource] }).watchlist).toEqual([]);
+
+    expect(() => validateRegistry({ watchlist: "MCP", sources: [minimalSource] })).toThrow(
+      /"watchlist" must be an array of terms/
+    );
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, watchlist: ["/(/"] }] })
+    ).toThrow(/\(example\): watchlist term "\/\(\/" is invalid/);
+    expect(() =>
+      validateRegistry({
+        targets: { hook: { type: "webhook", webhookUrlEnv: "HOOK_URL", template: "{{version}}", priorityMention: "@here" } },
+        sources: [minimalSource],
+      })
+    ).toThrow(/"priorityMention" does not apply to webhook targets/);
+  });
+
+  it("rejects notify targets that are not defined", () => {
+    expect(() =>
+      validateRegistry({ sources: [{ ...minimalSource, notify: ["teams"] }] })
+    ).toThrow(/unknown notify target "teams"/);
+  });
+
+  it("rejects an empty source list", () => {
+    expect(() => validateRegistry({ sources: [] })).toThrow(
+      /"sources" must be a non-empty array/
+    );
+  });
+
+  it("rejects an empty target list", () => {
+    expect(() => validateRegistry({ targets: {}, sources: [minimalSource] })).toThrow(
+      /"targets" must name at least one target/
+    );
+  });
+});
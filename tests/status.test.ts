@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { formatStatusTable, sourceStatus } from "../src/status";
+import { ReleaseSource } from "../src/config";
+
+const mockClaudeSource: ReleaseSource = {
+  id: "claude-code",
+  name: "Claude Code",
+  url: "https://example.com/changelog.md",
+  parserType: "markdown",
+  stateFile: "claude-code.json",
+  releasePageUrl: "https://example.com/changelog",
+};
+
+const mockGeminiSource: ReleaseSource = {
+  id: "gemini",
+  name: "Gemini",
+  url: "https://gemini.google/release-notes/",
+  parserType: "wayback",
+  stateFile: "gemini.json",
+  releasePageUrl: "https://gemini.google/release-notes/",
+};
+
+const mockChatGPTSource: ReleaseSource = {
+  id: "chatgpt",
+  name: "ChatGPT",
+  url: "https://help.openai.com/chatgpt-release-notes",
+  parserType: "wayback",
+  stateFile: "chatgpt.json",
+  releasePageUrl: "https://help.openai.com/chatgpt-release-notes",
+};
+
+describe("sourceStatus", () => {
+  it("reports a source that was never checked", () => {
+    expect(sourceStatus(mockGeminiSource, null)).toEqual({
+      id: "gemini",
+      name: "Gemini",
+      health: "never checked",
+      identifier: null,
+      lastCheckAt: null,
+      lastSuccessAt: null,
+      lastChangeAt: null,
+      consecutiveFailures: 0,
+      lastError: null,
+      snapshotTimestamp: null,
+    });
+  });
+
+  it("reports the stored state of a healthy source", () => {
+    const status = sourceStatus(mockGeminiSource, {
+      identifier: "2026.01.15",
+      lastCheckAt: "2026-01-16T08:00:00.000Z",
+      lastSuccessAt: "2026-01-16T08:00:00.000Z",
+      lastChangeAt: "2026-01-15T08:00:00.000Z",
+      snapshotTimestamp: "20260116075012",
+    });
+    expect(status).toMatchObject({
+      health: "ok",
+      identifier: "2026.01.15",
+      lastSuccessAt: "2026-01-16T08:00:00.000Z",
+      lastChangeAt: "2026-01-15T08:00:00.000Z",
+      consecutiveFailures: 0,
+      snapshotTimestamp: "20260116075012",
+    });
+  });
+
+  it("reports a failing source with its last error", () => {
+    const status = sourceStatus(mockChatGPTSource, {
+      identifier: "2026-01-10",
+      lastCheckAt: "2026-01-16T08:00:00.000Z",
+      lastSuccessAt: "2026-01-14T08:00:00.000Z",
+      lastError: "HTTP 503",
+      consecutiveFailures: 3,
+    });
+    expect(status).toMatchObject({ health: "failing", consecutiveFailures: 3, lastError: "HTTP 503" });
+  });
+});
+
+describe("formatStatusTable", () => {
+  it("prints one aligned row per source", () => {
+    const table = formatStatusTable([
+      sourceStatus(mockGeminiSource, {
+        identifier: "2026.01.15",
+        lastCheckAt: "2026-01-16T08:00:00.000Z",
+        lastSuccessAt: "2026-01-16T08:00:00.000Z",
+        lastChangeAt: "2026-01-15T08:30:00.000Z",
+        snapshotTimestamp: "20260116075012",
+      }),
+      sourceStatus(mockChatGPTSource, {
+        lastCheckAt: "2026-01-16T08:00:00.000Z",
+        lastError: "HTTP 503",
+        consecutiveFailures: 2,
+      }),
+      sourceStatus(mockClaudeSource, null),
+    ]);
+
+    expect(table.split("\n")).toEqual([
+      "SOURCE       HEALTH         IDENTIFIER  LAST SUCCESS      LAST CHANGE       FAILURES  SNAPSHOT          LAST ERROR",
+      "gemini       ok             2026.01.15  2026-01-16 08:00  2026-01-15 08:30  0         2026-01-16 07:50  -",
+      "chatgpt      failing        -           -                 -                 2         -                 HTTP 503",
+      "claude-code  never checked  -           -                 -                 0         -                 -",
+    ]);
+  });
+
+  it("shortens long identifiers and errors to one line", () => {
+    const table = formatStatusTable([
+      sourceStatus(mockChatGPTSource, {
+        lastCheckAt: "2026-01-16T08:00:00.000Z",
+        lastError: `Parse failed:\n${"x".repeat(60)}`,
+        consecutiveFailures: 1,
+      }),
+    ]);
+    const row = table.split("\n")[1];
+    expect(row).toContain(`Parse failed: ${"x".repeat(25)}…`);
+    expect(row).not.toContain("\n");
+  });
+});
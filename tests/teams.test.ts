@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { buildTeamsMessage, sendTeamsNotification, toTeamsMarkdown } from "../src/teams";
+import { SlackPayload } from "../src/slack";
+
+vi.mock("../src/logger", () => ({
+  info: vi.fn(),
+  success: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+const testPayload: SlackPayload = {
+  source: "Gemini",
+  version: "Feature B:2026.01.12",
+  changes: "Feature A (2026.01.10)\n\nFeature B (2026.01.12)\n\nhttps://gemini.google/release-notes/",
+  test: "no",
+};
+
+describe("toTeamsMarkdown", () => {
+  it("turns headings into bold text", () => {
+    expect(toTeamsMarkdown("## [1.2.0]\n- Added X")).toBe("**[1.2.0]**\n- Added X");
+  });
+});
+
+describe("buildTeamsMessage", () => {
+  it("builds an Adaptive Card with a text block per entry and a link button", () => {
+    const message = buildTeamsMessage(
+      testPayload,
+      ["Feature A (2026.01.10)", "Feature B (2026.01.12)"],
+      "https://gemini.google/release-notes/"
+    );
+
+    expect(message.type).toBe("message");
+    const card = message.attachments[0].content;
+    expect(message.attachments[0].contentType).toBe("application/vnd.microsoft.card.adaptive");
+    expect(card.body).toEqual([
+      {
+        type: "TextBlock",
+        text: "Gemini Feature B:2026.01.12",
+        weight: "Bolder",
+        size: "Medium",
+        wrap: true,
+      },
+      { type: "TextBlock", text: "Feature A (2026.01.10)", wrap: true, separator: false },
+      { type: "TextBlock", text: "Feature B (2026.01.12)", wrap: true, separator: true },
+    ]);
+    expect(card.actions).toEqual([
+      {
+        type: "Action.OpenUrl",
+        title: "View release notes",
+        url: "https://gemini.google/release-notes/",
+      },
+    ]);
+  });
+
+  it("marks test notifications", () => {
+    const card = buildTeamsMessage({ ...testPayload, test: "yes" }, ["x"]).attachments[0].content;
+
+    expect(card.body[card.body.length - 1]).toMatchObject({ text: "Test notification" });
+    expect(card.actions).toEqual([]);
+  });
+});
+
+describe("sendTeamsNotification", () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("returns error for empty webhook URL", async () => {
+    const result = await sendTeamsNotification("", testPayload);
+    expect(result).toEqual({ success: false, error: "No webhook URL configured" });
+  });
+
+  it("posts the card and reports success for 202 responses", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 202 });
+
+    const result = await sendTeamsNotification("https://example.webhook.office.com/x", testPayload, {
+      sections: ["Feature A (2026.01.10)", "Feature B (2026.01.12)"],
+      link: "https://gemini.google/release-notes/",
+    });
+
+    expect(result.success).toBe(true);
+    const body = JSON.parse((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body);
+    expect(body.attachments[0].content.body).toHaveLength(3);
+  });
+
+  it("handles network errors", async () => {
+    global.fetch = vi.fn().mockRejectedValue(new Error("Network error"));
+
+    const result = await sendTeamsNotification("https://example.webhook.office.com/x", testPayload);
+
+    expect(result).toEqual({ success: false, error: "Network error" });
+  });
+});
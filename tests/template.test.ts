@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { renderTemplate, templateError } from "../src/template";
+
+const view = {
+  source: "Claude Code",
+  version: "1.2.0 → 1.2.1",
+  isTest: false,
+  entries: [
+    { title: "1.2.0", body: "- Added X", last: false },
+    { title: "1.2.1", body: "", last: true },
+  ],
+  versionRange: { from: "1.2.0", to: "1.2.1" },
+  tags: ["cli", "release"],
+};
+
+describe("renderTemplate", () => {
+  it("fills values and dotted names", () => {
+    expect(renderTemplate("{{source}}: {{ versionRange.from }} to {{versionRange.to}}", view)).toBe(
+      "Claude Code: 1.2.0 to 1.2.1"
+    );
+  });
+
+  it("renders missing values as empty unless asked to keep them", () => {
+    expect(renderTemplate("[{{missing}}]", view)).toBe("[]");
+    expect(renderTemplate("[{{missing}}]", view, { keepUnknown: true })).toBe("[{{missing}}]");
+  });
+
+  it("repeats sections for list items and looks names up the stack", () => {
+    expect(renderTemplate("{{#entries}}{{source}} {{title}};{{/entries}}", view)).toBe(
+      "Claude Code 1.2.0;Claude Code 1.2.1;"
+    );
+    expect(renderTemplate("{{#tags}}#{{.}} {{/tags}}", view)).toBe("#cli #release ");
+  });
+
+  it("renders sections once for truthy values and inverted ones for falsy values", () => {
+    expect(renderTemplate("{{#isTest}}TEST {{/isTest}}{{^isTest}}live{{/isTest}}", view)).toBe("live");
+    expect(renderTemplate("{{#entries}}{{#body}}{{body}}{{/body}}{{^body}}(no details){{/body}} {{/entries}}", view)).toBe(
+      "- Added X (no details) "
+    );
+    expect(renderTemplate("{{^missing}}none{{/missing}}", view)).toBe("none");
+  });
+
+  it("drops lines that only hold section or comment tags", () => {
+    const template = [
+      "*{{source}}*",
+      "{{! one block per entry }}",
+      "{{#entries}}",
+      "  • {{title}}",
+      "  {{#last}}",
+      "  (newest)",
+      "  {{/last}}",
+      "{{/entries}}",
+      "end",
+    ].join("\n");
+
+    expect(renderTemplate(template, view)).toBe("*Claude Code*\n  • 1.2.0\n  • 1.2.1\n  (newest)\nend");
+  });
+
+  it("escapes values unless asked not to", () => {
+    const escape = (v: string) => v.replace(/</g, "&lt;");
+    const data = { text: "<b>" };
+
+    expect(renderTemplate("{{text}} {{{text}}} {{&text}}", data, { escape })).toBe("&lt;b> <b> <b>");
+  });
+});
+
+describe("templateError", () => {
+  it("accepts valid templates", () => {
+    expect(templateError("{{#entries}}{{title}}{{/entries}}")).toBeNull();
+  });
+
+  it("reports unclosed and mismatched tags", () => {
+    expect(templateError("{{source")).toBe("Unclosed tag at position 0");
+    expect(templateError("{{#entries}}{{title}}")).toBe("Unclosed section {{#entries}}");
+    expect(templateError("{{#a}}{{/b}}")).toBe("Unexpected {{/b}}");
+    expect(templateError("{{}}")).toBe("Empty tag at position 0");
+  });
+});
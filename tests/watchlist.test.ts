@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  findWatchMatches,
+  highlightWatchTerms,
+  watchChange,
+  watchTermError,
+} from "../src/watchlist";
+import { Change } from "../src/changelog";
+
+describe("findWatchMatches", () => {
+  it("matches terms at the start of a word, case-insensitively", () => {
+    const terms = ["MCP", "hook", "data retention"];
+
+    expect(findWatchMatches("New mcp servers and Hooks", terms)).toEqual(["MCP", "hook"]);
+    expect(findWatchMatches("Webhook retries", terms)).toEqual([]);
+    expect(findWatchMatches("Data  retention controls", terms)).toEqual([]);
+    expect(findWatchMatches("Data retention controls", terms)).toEqual(["data retention"]);
+  });
+
+  it("treats /slashed/ terms as regular expressions", () => {
+    const terms = ["/claude-(opus|sonnet)-\\d/", "/SSO/"];
+
+    expect(findWatchMatches("Now using claude-opus-5", terms)).toEqual([terms[0]]);
+    expect(findWatchMatches("sso login", terms)).toEqual([]);
+  });
+});
+
+describe("watchTermError", () => {
+  it("reports regular expressions that don't compile", () => {
+    expect(watchTermError("/(/")).toMatch(/Invalid regular expression/);
+    expect(watchTermError("(plain text)")).toBeNull();
+  });
+});
+
+describe("highlightWatchTerms", () => {
+  it("bolds whole words, leaving links and bold text alone", () => {
+    expect(
+      highlightWatchTerms(
+        "Hooks for **MCP** servers, see [hooks](https://example.com/hooks) or https://example.com/mcp",
+        ["hook", "MCP"]
+      )
+    ).toBe(
+      "**Hooks** for **MCP** servers, see [**hooks**](https://example.com/hooks) or https://example.com/mcp"
+    );
+  });
+
+  it("leaves code alone", () => {
+    expect(highlightWatchTerms("MCP:\n```\n+ Added MCP\n```\nRun `mcp add`", ["MCP"])).toBe(
+      "**MCP**:\n```\n+ Added MCP\n```\nRun `mcp add`"
+    );
+  });
+
+  it("merges overlapping mentions", () => {
+    expect(highlightWatchTerms("Claude Opus 5", ["Claude", "/Claude Opus/"])).toBe("**Claude Opus** 5");
+  });
+});
+
+describe("watchChange", () => {
+  const change: Change = {
+    kind: "new-entry",
+    version: "1.2.0",
+    formattedChanges: "## 1.2.0\n- Added MCP tool search",
+    sections: ["## 1.2.0\n- Added MCP tool search"],
+  };
+
+  it("highlights and marks changes that mention a term", () => {
+    expect(watchChange(change, ["SSO", "MCP"])).toEqual({
+      ...change,
+      formattedChanges: "## 1.2.0\n- Added **MCP** tool search",
+      sections: ["## 1.2.0\n- Added **MCP** tool search"],
+      watchMatches: ["MCP"],
+    });
+  });
+
+  it("marks updated entries without touching their diff", () => {
+    const updated: Change = {
+      kind: "entry-updated",
+      version: "Updated: 1.2.0",
+      formattedChanges: "+ - Added MCP tool search\n\nhttps://example.com/changelog",
+      sections: ["```\n+ - Added MCP tool search\n```"],
+      diff: { added: ["- Added MCP tool search"], removed: [] },
+    };
+
+    expect(watchChange(updated, ["MCP"])).toEqual({ ...updated, watchMatches: ["MCP"] });
+  });
+
+  it("leaves other changes as they are", () => {
+    expect(watchChange(change, ["SSO"])).toBe(change);
+  });
+
+  it("ignores terms that only appear in links", () => {
+    const linked: Change = {
+      ...change,
+      formattedChanges:
+        "## 1.2.0\n- Added [tool search](https://example.com/docs/api-reference)\n\n" +
+        "https://platform.example.com/docs/api-reference/tools",
+    };
+
+    expect(watchChange(linked, ["API"])).toBe(linked);
+  });
+});
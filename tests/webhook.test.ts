@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderWebhookTemplate, sendWebhookNotification } from "../src/webhook";
+
+vi.mock("../src/logger", () => ({
+  info: vi.fn(),
+  success: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}));
+
+const fields = {
+  source: "Claude Code",
+  version: "1.2.0",
+  changes: 'Added "quotes"\nand lines',
+  test: "no",
+};
+
+describe("renderWebhookTemplate", () => {
+  it("fills placeholders inside object templates", () => {
+    const body = renderWebhookTemplate(
+      { title: "{{source}} {{ version }}", body: "{{changes}}", tags: ["release", "{{test}}"], priority: 1 },
+      fields
+    );
+
+    expect(JSON.parse(body)).toEqual({
+      title: "Claude Code 1.2.0",
+      body: 'Added "quotes"\nand lines',
+      tags: ["release", "no"],
+      priority: 1,
+    });
+  });
+
+  it("JSON-escapes values in string templates", () => {
+    const body = renderWebhookTemplate('{"text": "{{source}}: {{changes}}"}', fields);
+
+    expect(JSON.parse(body)).toEqual({ text: 'Claude Code: Added "quotes"\nand lines' });
+  });
+
+  it("leaves unknown placeholders alone", () => {
+    expect(renderWebhookTemplate({ text: "{{missing}}" }, fields)).toBe('{"text":"{{missing}}"}');
+  });
+});
+
+describe("sendWebhookNotification", () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("returns error for empty webhook URL", async () => {
+    const result = await sendWebhookNotification("", { text: "{{source}}" }, fields);
+    expect(result).toEqual({ success: false, error: "No webhook URL configured" });
+  });
+
+  it("posts the rendered template", async () => {
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+
+    const result = await sendWebhookNotification("https://example.com/hook", { text: "{{source}}" }, fields);
+
+    expect(result.success).toBe(true);
+    expect(global.fetch).toHaveBeenCalledWith("https://example.com/hook", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: '{"text":"Claude Code"}',
+    });
+  });
+});